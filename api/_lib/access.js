@@ -0,0 +1,78 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+// Per-drawing share tokens. Every drawing gets an edit token and a view-only token when it is
+// created; requests carry one of them in the `X-Drawing-Token` header or a `token` query/body
+// field. Drawings saved before share links existed have no tokens and stay open to everyone.
+
+export const TOKEN_HEADER = 'X-Drawing-Token';
+export const ACCESS_HEADER = 'X-Drawing-Access';
+// JSON { [drawingId]: token } of the drawings a client has opened, for the drawing list
+export const TOKENS_HEADER = 'X-Drawing-Tokens';
+const MAX_LISTED_TOKENS = 500;
+
+export function generateShareToken() {
+  return randomBytes(18).toString('base64url');
+}
+
+export function readToken(req) {
+  const token = req.headers?.[TOKEN_HEADER.toLowerCase()] || req.query?.token || req.body?.token;
+  return typeof token === 'string' && token ? token : undefined;
+}
+
+// [[drawingId, token]] from TOKENS_HEADER; malformed entries are skipped
+export function readTokenList(req) {
+  let tokens;
+  try {
+    tokens = JSON.parse(req.headers?.[TOKENS_HEADER.toLowerCase()] || '{}');
+  } catch {
+    return [];
+  }
+  if (!tokens || typeof tokens !== 'object' || Array.isArray(tokens)) return [];
+  return Object.entries(tokens)
+    .filter(([id, token]) => id && typeof token === 'string' && token)
+    .slice(0, MAX_LISTED_TOKENS);
+}
+
+function tokensMatch(a, b) {
+  if (typeof a !== 'string' || typeof b !== 'string') return false;
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+// 'edit' | 'view' | null for a stored drawing (see db.js)
+export function resolveAccess(drawing, token) {
+  // Nothing stored yet: whoever creates it becomes its editor
+  if (!drawing) return 'edit';
+  // Legacy drawing created before share links existed
+  if (!drawing.editToken) return 'edit';
+  if (tokensMatch(token, drawing.editToken)) return 'edit';
+  if (tokensMatch(token, drawing.viewToken)) return 'view';
+  return null;
+}
+
+export function accessError(access, required) {
+  if (!access) return { status: 403, error: 'A valid share link is required to open this drawing' };
+  if (required === 'edit' && access !== 'edit') return { status: 403, error: 'This share link is view-only' };
+  return null;
+}
+
+// Load just the tokens of a drawing and check `token` grants `required` access.
+// Returns { ok: true, access, exists } or { ok: false, status, error }.
+export async function authorizeDrawing(db, id, token, required) {
+  const drawing = await db.findDrawing(id, { snapshot: false });
+  const access = resolveAccess(drawing, token);
+  const error = accessError(access, required);
+  if (error) return { ok: false, ...error };
+  return { ok: true, access, exists: !!drawing };
+}
+
+// Share tokens for an existing drawing. Legacy drawings get tokens generated on first call,
+// which turns on token checks for them from then on. Returns null when the drawing is missing.
+export async function getShareTokens(db, id) {
+  const drawing = await db.findDrawing(id, { snapshot: false });
+  if (!drawing) return null;
+  if (drawing.editToken) return { id, editToken: drawing.editToken, viewToken: drawing.viewToken };
+  // A concurrent call may have set them first, in which case those are returned
+  return db.ensureShareTokens(id, { editToken: generateShareToken(), viewToken: generateShareToken() });
+}
@@ -0,0 +1,72 @@
+import { getAssetStorage, isInlineStorage } from './assetStorage.js';
+import { createLogger } from './log.js';
+
+// Orphaned asset sweep. Every paste stores an Asset, but deleting the image shape (or the whole
+// drawing) leaves the bytes behind. An asset is an orphan when no stored drawing snapshot,
+// version-history checkpoint or change log entry has an `asset` record whose `src` points at it,
+// so restoring a checkpoint or playing back the log never shows a missing image. Orphans are
+// only removed once they haven't been uploaded or reused for ASSET_GC_GRACE_HOURS, so uploads
+// whose drawing hasn't been saved yet (or is still in someone's offline outbox) survive.
+
+
+const log = createLogger('asset-gc');
+
+export const ASSET_GC_GRACE_HOURS = Number(process.env.ASSET_GC_GRACE_HOURS) || 24;
+
+// Matches `/api/asset?id=<id>` and `/api/asset/<id>`, relative or absolute
+const ASSET_SRC = /\/api\/asset(?:\?(?:[^#]*&)?id=|\/)([\w-]+)/;
+
+export function assetIdFromSrc(src) {
+  return typeof src === 'string' ? ASSET_SRC.exec(src)?.[1] : undefined;
+}
+
+// Ids of every asset referenced by a stored snapshot, checkpoint or logged change
+export async function collectReferencedAssetIds(db) {
+  const referenced = new Set();
+  for await (const src of db.assetSources()) {
+    const id = assetIdFromSrc(src);
+    if (id) referenced.add(id);
+  }
+  return referenced;
+}
+
+// Find (and unless `dryRun`, delete) unreferenced assets last touched before the grace period.
+// Returns { referenced, orphaned: [{ id, drawingId, size, updatedAt }], deleted, freedBytes }.
+export async function sweepOrphanedAssets(db, { dryRun = false, graceHours = ASSET_GC_GRACE_HOURS } = {}) {
+  const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+  const referenced = await collectReferencedAssetIds(db);
+
+  const orphaned = [];
+  for await (const asset of db.staleAssets(cutoff)) {
+    if (!referenced.has(asset.id)) orphaned.push(asset);
+  }
+
+  let deleted = 0;
+  let freedBytes = 0;
+  if (!dryRun) {
+    for (const asset of orphaned) {
+      // Re-check the age so an asset reused since the scan started is kept
+      if (!(await db.deleteStaleAsset(asset.id, cutoff))) continue;
+      // Metadata goes first: leftover bytes are harmless, metadata without bytes is a broken image
+      if (!isInlineStorage(asset.storage)) {
+        try {
+          const storage = await getAssetStorage(db, asset.storage);
+          await storage.delete(asset.id);
+        } catch (err) {
+          log.error('Could not delete stored bytes', { assetId: asset.id, err });
+        }
+      }
+      deleted += 1;
+      freedBytes += asset.size ?? 0;
+    }
+  }
+
+  return {
+    dryRun,
+    graceHours,
+    referenced: referenced.size,
+    orphaned: orphaned.map(({ id, drawingId, size, updatedAt }) => ({ id, drawingId, size, updatedAt })),
+    deleted,
+    freedBytes,
+  };
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Where asset bytes live. The database (see db.js) always holds the asset metadata (id, drawing,
+// type, hash, size) and the name of the backend its bytes were written to, so changing
+// ASSET_STORAGE only affects new uploads:
+//   db (default) – inline in the database next to the metadata (`mongo` is the older name)
+//   fs           – one file per asset under ASSET_STORAGE_DIR
+//   s3           – objects in an S3-compatible bucket (AWS, MinIO, R2, ...)
+// Backends expose put(id, data, mimeType), get(id, range) and delete(id). `get` resolves to a
+// Buffer or readable stream of the requested inclusive byte range, or null if the bytes are gone.
+
+export const ASSET_STORAGE = (process.env.ASSET_STORAGE || 'db').toLowerCase();
+
+// Assets stored before other backends existed have no `storage` and live in the database
+export function isInlineStorage(name) {
+  return !name || name === 'db' || name === 'mongo';
+}
+
+const storages = new Map(); // name -> Promise<storage>
+
+// Asset ids become file names and object keys
+function assertSafeAssetId(id) {
+  if (typeof id !== 'string' || !/^[\w-]{1,128}$/.test(id)) {
+    throw new Error(`Invalid asset id: ${String(id).slice(0, 64)}`);
+  }
+}
+
+function createDatabaseStorage(db) {
+  return {
+    name: 'db',
+    // Bytes are inserted together with the asset metadata by storeAsset
+    inline: true,
+    async put(id, data) {
+      await db.writeAssetData(id, data);
+    },
+    async get(id, range) {
+      const data = await db.readAssetData(id);
+      if (!data) return null;
+      return range ? data.subarray(range.start, range.end + 1) : data;
+    },
+    async delete(id) {
+      await db.deleteAssetData(id);
+    },
+  };
+}
+
+function createFsStorage() {
+  const dir = path.resolve(process.env.ASSET_STORAGE_DIR || 'data/assets');
+  const fileFor = (id) => {
+    assertSafeAssetId(id);
+    return path.join(dir, id);
+  };
+
+  return {
+    name: 'fs',
+    async put(id, data) {
+      const file = fileFor(id);
+      await mkdir(dir, { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const tmp = `${file}.${randomUUID()}.tmp`;
+      await writeFile(tmp, data);
+      await rename(tmp, file);
+    },
+    async get(id, range) {
+      const file = fileFor(id);
+      try {
+        await stat(file);
+      } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+      return createReadStream(file, range ? { start: range.start, end: range.end } : undefined);
+    },
+    async delete(id) {
+      try {
+        await unlink(fileFor(id));
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+      }
+    },
+  };
+}
+
+async function createS3Storage() {
+  // Loaded on demand so deployments without S3 don't pay for the SDK
+  const { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } = await import('@aws-sdk/client-s3');
+
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET environment variable is not defined');
+  }
+  const endpoint = process.env.S3_ENDPOINT || undefined;
+  const prefix = process.env.S3_PREFIX ?? 'assets/';
+  const credentials =
+    process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+      : undefined; // fall back to the SDK's default credential chain
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint,
+    credentials,
+    // MinIO and most self-hosted stores only support path-style bucket URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : !!endpoint,
+  });
+  const keyFor = (id) => {
+    assertSafeAssetId(id);
+    return `${prefix}${id}`;
+  };
+
+  return {
+    name: 's3',
+    async put(id, data, mimeType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: keyFor(id), Body: data, ContentType: mimeType }));
+    },
+    async get(id, range) {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({
+            Bucket: bucket,
+            Key: keyFor(id),
+            Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+          })
+        );
+        return object.Body;
+      } catch (err) {
+        if (err.name === 'NoSuchKey' || err.$metadata?.httpStatusCode === 404) return null;
+        throw err;
+      }
+    },
+    async delete(id) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: keyFor(id) }));
+    },
+  };
+}
+
+// The backend called `name` (default: ASSET_STORAGE). The database backend needs the db.
+export function getAssetStorage(db, name = ASSET_STORAGE) {
+  if (isInlineStorage(name)) name = 'db';
+  if (!storages.has(name)) {
+    let storage;
+    switch (name) {
+      case 'db':
+        storage = Promise.resolve(createDatabaseStorage(db));
+        break;
+      case 'fs':
+        storage = Promise.resolve(createFsStorage());
+        break;
+      case 's3':
+        storage = createS3Storage();
+        // Let the next request retry a failed setup (e.g. missing env vars)
+        storage.catch(() => storages.delete(name));
+        break;
+      default:
+        return Promise.reject(new Error(`Unknown asset storage "${name}" (expected db, fs or s3)`));
+    }
+    storages.set(name, storage);
+  }
+  return storages.get(name);
+}
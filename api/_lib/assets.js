@@ -0,0 +1,291 @@
+import { createHash, randomUUID } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { getAssetStorage } from './assetStorage.js';
+import { createLogger } from './log.js';
+
+// Asset uploads. The body is either the raw file bytes (Content-Type = the file's type),
+// multipart/form-data with a `file` part, or the legacy JSON `{ data: <base64>, mimeType }`.
+// The actual bytes decide the stored type, and files are content-addressed by SHA-256 within
+// a drawing so pasting the same image twice reuses the existing asset and `src`.
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/apng',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/svg+xml',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+];
+
+export const ASSET_MAX_BYTES = Number(process.env.ASSET_MAX_BYTES) || 10 * 1024 * 1024;
+export const ASSET_ALLOWED_TYPES = process.env.ASSET_ALLOWED_TYPES
+  ? process.env.ASSET_ALLOWED_TYPES.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean)
+  : DEFAULT_ALLOWED_TYPES;
+
+const log = createLogger('assets');
+
+// Room for multipart boundaries and part headers on top of the file itself
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+// Types that are the same file format as far as sniffing can tell
+const TYPE_ALIASES = { 'image/jpg': 'image/jpeg', 'image/apng': 'image/png' };
+
+function assetError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function tooLarge() {
+  const mb = Math.round(ASSET_MAX_BYTES / 1024 / 102.4) / 10;
+  return assetError(413, `Asset is larger than the ${mb} MB upload limit`);
+}
+
+function mediaType(contentType) {
+  return contentType?.split(';')[0].trim().toLowerCase() || undefined;
+}
+
+// The raw request body, up to `limit` bytes
+export async function readBody(req, limit, tooLargeError = tooLarge) {
+  // Some runtimes (e.g. Vercel for application/octet-stream) hand over the buffered body
+  if (Buffer.isBuffer(req.body)) {
+    if (req.body.length > limit) throw tooLargeError();
+    return req.body;
+  }
+  if (Number(req.headers['content-length']) > limit) throw tooLargeError();
+
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) throw tooLargeError();
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseMultipart(body, boundary) {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    start += delimiter.length;
+    // `--boundary--` closes the body
+    if (body.subarray(start, start + 2).toString() === '--') break;
+    const end = body.indexOf(delimiter, start);
+    if (end === -1) break;
+    // Each part sits between the CRLF after its delimiter and the CRLF before the next one
+    const part = body.subarray(start + 2, end - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const disposition = /content-disposition:([^\r\n]*)/i.exec(headers)?.[1] ?? '';
+      parts.push({
+        name: /\bname="([^"]*)"/i.exec(disposition)?.[1],
+        filename: /\bfilename="([^"]*)"/i.exec(disposition)?.[1],
+        contentType: /content-type:([^\r\n]*)/i.exec(headers)?.[1],
+        data: part.subarray(headerEnd + 4),
+      });
+    }
+    start = end;
+  }
+  return parts;
+}
+
+// Read an upload request into { data, claimedType }. Throws 400 for a missing file and 413
+// when it is over ASSET_MAX_BYTES.
+export async function readAssetUpload(req) {
+  const contentType = mediaType(req.headers['content-type']);
+
+  if (contentType === 'application/json') {
+    const { data: base64, mimeType } = req.body || {};
+    if (!base64 || typeof base64 !== 'string') throw assetError(400, 'Missing data or mimeType');
+    if (Math.floor((base64.length * 3) / 4) > ASSET_MAX_BYTES + 2) throw tooLarge();
+    return { data: Buffer.from(base64, 'base64'), claimedType: mediaType(mimeType) };
+  }
+
+  if (contentType === 'multipart/form-data') {
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(req.headers['content-type']);
+    if (!boundary) throw assetError(400, 'Missing multipart boundary');
+    const body = await readBody(req, ASSET_MAX_BYTES + MULTIPART_OVERHEAD);
+    const parts = parseMultipart(body, (boundary[1] ?? boundary[2]).trim());
+    const file = parts.find((part) => part.name === 'file') ?? parts.find((part) => part.filename !== undefined);
+    if (!file || file.data.length === 0) throw assetError(400, 'Missing file part');
+    if (file.data.length > ASSET_MAX_BYTES) throw tooLarge();
+    return { data: file.data, claimedType: mediaType(file.contentType) };
+  }
+
+  const data = await readBody(req, ASSET_MAX_BYTES);
+  if (data.length === 0) throw assetError(400, 'Missing file data');
+  return { data, claimedType: contentType };
+}
+
+function ascii(data, start, end) {
+  return data.subarray(start, end).toString('latin1');
+}
+
+function looksLikeSvg(data) {
+  const head = data.subarray(0, 4096).toString('utf8').replace(/^\uFEFF/, '');
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(head);
+}
+
+// Detect the file type from its leading bytes. Returns undefined for anything unrecognised.
+export function sniffMimeType(data) {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(data, 4, 8) === 'ftyp') {
+    const brand = ascii(data, 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return 'video/mp4';
+  }
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) return 'video/webm';
+  if (looksLikeSvg(data)) return 'image/svg+xml';
+  return undefined;
+}
+
+// The stored MIME type for an upload: the sniffed type, which must be allowed and agree with
+// the type the client claimed (if any). Throws 415 otherwise.
+export function resolveAssetType({ data, claimedType }) {
+  const sniffed = sniffMimeType(data);
+  if (!sniffed) {
+    throw assetError(415, 'Unsupported media type: file content is not a recognised image or video');
+  }
+  const claimed = claimedType && claimedType !== 'application/octet-stream' ? claimedType : undefined;
+  if (claimed && (TYPE_ALIASES[claimed] ?? claimed) !== (TYPE_ALIASES[sniffed] ?? sniffed)) {
+    throw assetError(415, `Unsupported media type: file content is ${sniffed}, not ${claimed}`);
+  }
+  // Keep the more specific claimed type (image/apng) over what sniffing can tell (image/png)
+  const mimeType = claimed === 'image/apng' ? claimed : sniffed;
+  if (!ASSET_ALLOWED_TYPES.includes(mimeType)) {
+    throw assetError(415, `Unsupported media type: ${mimeType} uploads are not allowed`);
+  }
+  return mimeType;
+}
+
+function describeAsset(asset, sha256, deduplicated) {
+  return {
+    id: asset.id,
+    src: `/api/asset?id=${asset.id}`,
+    sha256,
+    mimeType: asset.mimeType,
+    size: asset.size,
+    deduplicated,
+  };
+}
+
+// Store an asset for a drawing unless the same bytes are already stored for it. The bytes go
+// to the configured storage backend (see assetStorage.js); `src` is always served by /api/asset.
+// Returns { id, src, sha256, mimeType, size, deduplicated }.
+export async function storeAsset(db, { drawingId, data, mimeType }) {
+  const sha256 = createHash('sha256').update(data).digest('hex');
+
+  // Reusing an asset bumps its updatedAt, which keeps it clear of the orphan sweep (assetGc.js)
+  const existing = await db.reuseAsset(drawingId, sha256);
+  if (existing) return describeAsset(existing, sha256, true);
+
+  const storage = await getAssetStorage(db);
+  const asset = { id: randomUUID(), drawingId, sha256, mimeType, size: data.length, storage: storage.name };
+  // Bytes are written before the metadata so a visible asset always has its data
+  if (!storage.inline) await storage.put(asset.id, data, mimeType);
+
+  let created;
+  try {
+    created = await db.insertAsset(storage.inline ? { ...asset, data } : asset);
+  } catch (err) {
+    if (!storage.inline) await storage.delete(asset.id).catch(() => {});
+    throw err;
+  }
+  if (!created) {
+    // Two uploads of the same file raced: keep the one that was stored first
+    if (!storage.inline) await storage.delete(asset.id).catch(() => {});
+    return describeAsset(await db.reuseAsset(drawingId, sha256), sha256, true);
+  }
+  return describeAsset(asset, sha256, false);
+}
+
+// Single `bytes=` range → { start, end } (inclusive), 'unsatisfiable', or null to send the whole
+// file (no header, multiple ranges or a malformed one).
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() ?? '');
+  if (!match || (!match[1] && !match[2])) return null;
+  let start;
+  let end;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+// Serve a stored asset (metadata from db.findAsset), honouring Range and If-None-Match.
+// SVGs are served from our own origin, so scripts inside them must not run. Assets that belong to a
+// drawing are only served with a view token, so shared caches must not keep them.
+export async function sendAsset(req, res, db, asset) {
+  const storage = await getAssetStorage(db, asset.storage ?? 'db');
+  const etag = asset.sha256 ? `"${asset.sha256}"` : undefined;
+
+  res.setHeader('Content-Type', asset.mimeType);
+  res.setHeader('Cache-Control', `${asset.drawingId ? 'private' : 'public'}, max-age=31536000, immutable`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+  res.setHeader('Accept-Ranges', 'bytes');
+  if (etag) {
+    res.setHeader('ETag', etag);
+    if (req.headers['if-none-match'] === etag) return res.status(304).end();
+  }
+
+  // Assets uploaded before sizes were recorded are stored inline: load them whole
+  let whole;
+  let size = asset.size;
+  if (size === undefined) {
+    whole = await storage.get(asset.id);
+    if (!whole) return res.status(404).json({ error: 'Asset data not found' });
+    size = whole.length;
+  }
+
+  const range = parseRange(req.headers.range, size);
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    return res.status(416).end();
+  }
+
+  let data;
+  if (req.method !== 'HEAD') {
+    data = whole
+      ? range ? whole.subarray(range.start, range.end + 1) : whole
+      : await storage.get(asset.id, range ?? undefined);
+    if (!data) return res.status(404).json({ error: 'Asset data not found' });
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', String(range.end - range.start + 1));
+  } else {
+    res.status(200);
+    res.setHeader('Content-Length', String(size));
+  }
+
+  if (!data) return res.end(); // HEAD
+  if (Buffer.isBuffer(data)) return res.end(data);
+  try {
+    await pipeline(data, res);
+  } catch (err) {
+    // The client went away mid-download; nothing left to send
+    if (err.code !== 'ERR_STREAM_PREMATURE_CLOSE') log.error('Asset stream failed', { assetId: asset.id, err });
+  }
+}
@@ -0,0 +1,133 @@
+import { isEmptyChanges } from './diff.js';
+import { increment, observe } from './metrics.js';
+
+// Record diffs go to everyone on a drawing's private Pusher channel. Each diff is numbered with
+// the drawing's next change seq and kept in the change log, so a client that notices a gap in
+// the numbers can fetch just the diffs it missed (GET /api/drawing/:id/changes?after=<seq>)
+// instead of reloading the whole snapshot. Catching up only needs CHANGE_LOG_MINUTES of it;
+// the log is kept for EVENT_LOG_DAYS so the app can play back how a board evolved.
+//
+// Pusher rejects events over 10 KB. Bigger diffs are sent as `drawing-diff-chunk` events
+// ({ seq, part, parts, data }) carrying slices of the diff's JSON for the client to join back
+// together. Diffs too big even for that, or that couldn't be numbered, become a
+// `drawing-sync-request` ({ seq }): clients catch up from the log, or refetch the snapshot
+// when there is no seq.
+
+export const CHANGE_LOG_MINUTES = Number(process.env.CHANGE_LOG_MINUTES) || 60;
+// 0 keeps only the catch-up window
+export const EVENT_LOG_DAYS = process.env.EVENT_LOG_DAYS ? Number(process.env.EVENT_LOG_DAYS) : 30;
+
+// Room for the chunk envelope below Pusher's 10 KB event limit
+const CHUNK_BYTES = 9000;
+const MAX_CHUNKS = 50;
+// Pusher accepts up to 10 events per batch request
+const BATCH_SIZE = 10;
+
+// Split a JSON string into slices whose JSON encoding stays under `maxBytes`
+export function splitPayload(json, maxBytes = CHUNK_BYTES) {
+  const parts = [];
+  let start = 0;
+  while (start < json.length) {
+    let end = Math.min(json.length, start + maxBytes);
+    // Escaped quotes and multi-byte characters make a slice bigger than its length
+    while (end - start > 1 && Buffer.byteLength(JSON.stringify(json.slice(start, end))) > maxBytes) {
+      end = start + Math.floor((end - start) * 0.8);
+    }
+    parts.push(json.slice(start, end));
+    start = end;
+  }
+  return parts;
+}
+
+// When a change logged now expires
+export function changeLogExpiry() {
+  const minutes = Math.max(CHANGE_LOG_MINUTES, (EVENT_LOG_DAYS || 0) * 24 * 60);
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+function isTooLarge(err) {
+  return err.status === 413 || err.message?.includes('too large');
+}
+
+// Log and send a diff. `socketId` is the sender's Pusher connection, which doesn't get its own
+// diff back. Returns { sent: 'diff' | 'chunks' | 'sync-request', seq }.
+export async function broadcastDrawingDiff(pusher, db, id, changes, socketId) {
+  try {
+    const result = await sendDrawingDiff(pusher, db, id, changes, socketId);
+    increment('broadcasts_total', { sent: result.sent });
+    return result;
+  } catch (err) {
+    increment('broadcast_failures_total');
+    throw err;
+  }
+}
+
+async function sendDrawingDiff(pusher, db, id, changes, socketId) {
+  const channel = `private-drawing-${id}`;
+  const pusherOptions = socketId ? { socket_id: socketId } : {};
+  const seq = await db.appendChange(id, { changes, clientId: socketId, expiresAt: changeLogExpiry() });
+  const json = JSON.stringify(changes);
+  observe('broadcast_diff_bytes', Buffer.byteLength(json));
+  const parts = splitPayload(json);
+
+  try {
+    if (parts.length === 1) {
+      await pusher.trigger(channel, 'drawing-diff', { seq, changes }, pusherOptions);
+      return { sent: 'diff', seq };
+    }
+    // Chunks are matched up by seq
+    if (seq !== null && parts.length <= MAX_CHUNKS) {
+      const events = parts.map((data, part) => ({
+        channel,
+        name: 'drawing-diff-chunk',
+        data: { seq, part, parts: parts.length, data },
+        ...pusherOptions,
+      }));
+      for (let i = 0; i < events.length; i += BATCH_SIZE) {
+        await pusher.triggerBatch(events.slice(i, i + BATCH_SIZE));
+      }
+      return { sent: 'chunks', seq };
+    }
+  } catch (pusherErr) {
+    if (!isTooLarge(pusherErr)) throw pusherErr;
+    // Pusher answered 413: fall back to a sync request
+    increment('broadcast_payload_too_large_total');
+  }
+  await pusher.trigger(channel, 'drawing-sync-request', { seq }, pusherOptions);
+  return { sent: 'sync-request', seq };
+}
+
+// Extra receivers for changes the server stores itself (e.g. the shapes API), such as the
+// Socket.IO rooms in server.js, which would otherwise overwrite them on their next flush
+const changeRelays = new Set();
+
+export function addChangeRelay(relay) {
+  changeRelays.add(relay);
+}
+
+// Send changes stored by the server to every connected client, whichever transport they use.
+// Pass `pusher` as null when Pusher isn't configured: the changes are still logged.
+export async function publishStoredChanges(pusher, db, id, changes) {
+  for (const relay of changeRelays) relay(id, changes);
+  if (!pusher) {
+    const seq = await db.appendChange(id, { changes, clientId: null, expiresAt: changeLogExpiry() });
+    return { sent: 'log', seq };
+  }
+  return broadcastDrawingDiff(pusher, db, id, changes);
+}
+
+// Receivers for a stored snapshot that was replaced wholesale (e.g. a restored revision)
+const resetRelays = new Set();
+
+export function addResetRelay(relay) {
+  resetRelays.add(relay);
+}
+
+// Make every connected client reload the drawing: relays get the new snapshot, Pusher clients a
+// `drawing-sync-request` without a seq. `changes` (old to new snapshot) go into the change log so
+// playback doesn't skip the reset. Pass `pusher` as null when Pusher isn't configured.
+export async function publishSnapshotReset(pusher, db, id, snapshot, changes) {
+  if (!isEmptyChanges(changes)) await db.appendChange(id, { changes, clientId: null, expiresAt: changeLogExpiry() });
+  for (const relay of resetRelays) relay(id, snapshot);
+  if (pusher) await pusher.trigger(`private-drawing-${id}`, 'drawing-sync-request', { seq: null });
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import { diffSnapshots } from './diff.js';
+import { validateSnapshot } from './snapshots.js';
+import { createLogger } from './log.js';
+
+// Saved copies of a drawing (/api/drawing/:id/revisions), stored in their own collection next
+// to the single live snapshot:
+//   { id, drawingId, revision, kind: 'auto' | 'named', name, snapshot, createdAt }
+// `revision` is the drawing's revision counter (see revisions.js) when the copy was taken.
+// Auto checkpoints are taken by saves at most every REVISION_INTERVAL_MINUTES per drawing;
+// the newest REVISION_KEEP of them are kept, none older than REVISION_MAX_AGE_DAYS. Named
+// checkpoints are made by users and stay until they are deleted.
+
+export const REVISION_INTERVAL_MINUTES = Number(process.env.REVISION_INTERVAL_MINUTES) || 10;
+export const REVISION_KEEP = Number(process.env.REVISION_KEEP) || 50;
+export const REVISION_MAX_AGE_DAYS = Number(process.env.REVISION_MAX_AGE_DAYS) || 30;
+
+const MAX_NAMED_REVISIONS = 100;
+const MAX_NAME_LENGTH = 100;
+
+const log = createLogger('checkpoints');
+
+// drawingId -> when this process last saw an auto checkpoint for it, so most saves skip the
+// database lookup
+const lastAutoCheckpoint = new Map();
+
+function checkpointError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+export function readCheckpointName(value) {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw checkpointError(400, 'name is required');
+  }
+  if (value.length > MAX_NAME_LENGTH) {
+    throw checkpointError(400, `name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+// Copy the drawing's current snapshot. Null when it has none yet.
+export async function takeCheckpoint(db, drawingId, { kind, name = null }) {
+  if (kind === 'named') {
+    const named = (await db.listDrawingRevisions(drawingId)).filter((entry) => entry.kind === 'named');
+    if (named.length >= MAX_NAMED_REVISIONS) {
+      throw checkpointError(409, `A drawing can have at most ${MAX_NAMED_REVISIONS} named checkpoints`);
+    }
+  }
+  const drawing = await db.findDrawing(drawingId);
+  if (!drawing?.snapshot) return null;
+  const entry = await db.insertDrawingRevision({
+    id: randomUUID(),
+    drawingId,
+    revision: drawing.revision ?? 0,
+    kind,
+    name,
+    snapshot: drawing.snapshot,
+    createdAt: new Date(),
+  });
+  if (entry && kind === 'auto') {
+    lastAutoCheckpoint.set(drawingId, entry.createdAt.getTime());
+    await db.pruneDrawingRevisions(drawingId, {
+      keep: REVISION_KEEP,
+      before: new Date(Date.now() - REVISION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000),
+    });
+  }
+  return entry;
+}
+
+// Called after every save. Failures are only logged: the save itself already succeeded.
+export async function recordAutoCheckpoint(db, drawingId) {
+  const interval = REVISION_INTERVAL_MINUTES * 60 * 1000;
+  const cutoff = Date.now() - interval;
+  if ((lastAutoCheckpoint.get(drawingId) ?? 0) > cutoff) return;
+  try {
+    // Another server process may have taken one since
+    const last = await db.lastDrawingRevisionAt(drawingId, 'auto');
+    if (last && last.getTime() > cutoff) {
+      lastAutoCheckpoint.set(drawingId, last.getTime());
+      return;
+    }
+    const entry = await takeCheckpoint(db, drawingId, { kind: 'auto' });
+    if (entry) log.info('Took auto checkpoint', { drawingId, revisionId: entry.id, revision: entry.revision });
+  } catch (err) {
+    log.warn('Auto checkpoint failed', { drawingId, err });
+  }
+}
+
+// Make a stored copy the drawing's snapshot again. The state being replaced is kept as an
+// auto checkpoint first, so a restore can itself be undone. Returns the new revision, the
+// snapshot and the `changes` from the replaced one, or null when there is no such copy.
+export async function restoreDrawingRevision(db, drawingId, revisionId) {
+  const entry = await db.findDrawingRevision(drawingId, revisionId);
+  if (!entry) return null;
+  const current = await db.findDrawing(drawingId);
+  // Copies from before a tldraw upgrade are migrated like any other snapshot
+  const snapshot = validateSnapshot(entry.snapshot);
+  const label = entry.name ? `"${entry.name}"` : `revision ${entry.revision}`;
+  await takeCheckpoint(db, drawingId, { kind: 'auto', name: `Before restoring ${label}` });
+  const result = await db.saveSnapshot(drawingId, snapshot);
+  return { revision: result.revision, snapshot, changes: diffSnapshots(current?.snapshot, snapshot) };
+}
@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto';
+
+// Comment threads on a drawing (/api/drawing/:id/comments). A thread is pinned to a page point
+// and optionally to a shape, which the marker follows while it exists:
+//   { id, drawingId, anchor: { pageId, x, y, shapeId? }, resolved, resolvedBy, resolvedAt,
+//     comments: [{ id, author: { id, name, color }, body, createdAt }], createdAt, updatedAt }
+// Authors are the commenter's tldraw user (self-reported, like presence). Changes reach the
+// other clients as `comment-thread` / `comment-thread-deleted` events on the drawing's channel.
+
+const MAX_BODY_LENGTH = 5000;
+const MAX_NAME_LENGTH = 100;
+const MAX_COMMENTS_PER_THREAD = 500;
+// Room for the event envelope below Pusher's 10 KB limit
+const MAX_EVENT_BYTES = 9000;
+
+function commentError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function isObject(value) {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readString(value, field, maxLength) {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw commentError(400, `${field} is required`);
+  }
+  if (value.length > maxLength) {
+    throw commentError(400, `${field} must be at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+export function readAuthor(author) {
+  if (!isObject(author)) {
+    throw commentError(400, 'author must be an object with id and name');
+  }
+  return {
+    id: readString(author.id, 'author.id', MAX_NAME_LENGTH),
+    name: readString(author.name, 'author.name', MAX_NAME_LENGTH),
+    color: typeof author.color === 'string' && author.color.length <= 32 ? author.color : null,
+  };
+}
+
+function readAnchor(anchor) {
+  if (!isObject(anchor)) {
+    throw commentError(400, 'anchor must be an object with pageId, x and y');
+  }
+  if (typeof anchor.pageId !== 'string' || !anchor.pageId.startsWith('page:')) {
+    throw commentError(400, 'anchor.pageId must be a page id');
+  }
+  if (!Number.isFinite(anchor.x) || !Number.isFinite(anchor.y)) {
+    throw commentError(400, 'anchor.x and anchor.y must be numbers');
+  }
+  if (anchor.shapeId !== undefined && anchor.shapeId !== null &&
+    (typeof anchor.shapeId !== 'string' || !anchor.shapeId.startsWith('shape:'))) {
+    throw commentError(400, 'anchor.shapeId must be a shape id');
+  }
+  const result = { pageId: anchor.pageId, x: anchor.x, y: anchor.y };
+  if (anchor.shapeId) result.shapeId = anchor.shapeId;
+  return result;
+}
+
+// A comment from a request body ({ body, author })
+export function newComment(input) {
+  return {
+    id: randomUUID(),
+    author: readAuthor(input?.author),
+    body: readString(input?.body, 'body', MAX_BODY_LENGTH),
+    createdAt: new Date(),
+  };
+}
+
+// A thread and its first comment from a request body ({ anchor, body, author })
+export function newCommentThread(drawingId, input) {
+  const comment = newComment(input);
+  return {
+    id: randomUUID(),
+    drawingId,
+    anchor: readAnchor(input?.anchor),
+    resolved: false,
+    resolvedBy: null,
+    resolvedAt: null,
+    comments: [comment],
+    createdAt: comment.createdAt,
+    updatedAt: comment.createdAt,
+  };
+}
+
+// Fields for db.updateCommentThread from a PATCH body ({ resolved, author } and/or { anchor })
+export function readThreadUpdate(input) {
+  const update = {};
+  if (input?.resolved !== undefined) {
+    if (typeof input.resolved !== 'boolean') {
+      throw commentError(400, 'resolved must be a boolean');
+    }
+    update.resolved = input.resolved;
+    update.resolvedBy = input.resolved ? readAuthor(input.author) : null;
+    update.resolvedAt = input.resolved ? new Date() : null;
+  }
+  if (input?.anchor !== undefined) update.anchor = readAnchor(input.anchor);
+  if (Object.keys(update).length === 0) {
+    throw commentError(400, 'Nothing to update: send resolved or anchor');
+  }
+  return update;
+}
+
+export function assertCanReply(thread) {
+  if (thread.comments.length >= MAX_COMMENTS_PER_THREAD) {
+    throw commentError(409, `A thread can have at most ${MAX_COMMENTS_PER_THREAD} comments`);
+  }
+}
+
+// Tell the drawing's other clients about a new or changed thread. Threads too long for one
+// Pusher event are announced by id only, and clients refetch the list.
+export async function publishCommentThread(pusher, drawingId, thread, socketId) {
+  const channel = `private-drawing-${drawingId}`;
+  const options = socketId ? { socket_id: socketId } : {};
+  const fits = Buffer.byteLength(JSON.stringify(thread)) <= MAX_EVENT_BYTES;
+  await pusher.trigger(channel, 'comment-thread', fits ? { thread } : { id: thread.id }, options);
+}
+
+export async function publishCommentThreadDeleted(pusher, drawingId, threadId, socketId) {
+  const options = socketId ? { socket_id: socketId } : {};
+  await pusher.trigger(`private-drawing-${drawingId}`, 'comment-thread-deleted', { id: threadId }, options);
+}
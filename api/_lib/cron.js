@@ -0,0 +1,21 @@
+import { timingSafeEqual } from 'crypto';
+
+// Whether the request carries `Authorization: Bearer <secret>`
+export function hasBearerToken(req, secret) {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers?.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Scheduled endpoints are called by Vercel Cron with `Authorization: Bearer <CRON_SECRET>`.
+// Returns null when the request may run, or { status, error }.
+export function authorizeCron(req) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return { status: 503, error: 'CRON_SECRET is not configured' };
+  }
+  if (!hasBearerToken(req, secret)) {
+    return { status: 401, error: 'Unauthorized' };
+  }
+  return null;
+}
@@ -1,74 +1,91 @@
-import mongoose from 'mongoose';
+// Drawings and assets are stored through a small database interface with one driver per
+// backend, picked with DB_DRIVER:
+//   mongo  – MongoDB via Mongoose (MONGODB_URI); the default when MONGODB_URI is set
+//   sqlite – a single SQLite file at SQLITE_PATH (default data/dessimbol.sqlite)
+//   file   – in memory, saved to the JSON file DB_FILE (default data/db.json); the default otherwise
+//   memory – in memory only, gone when the process exits
+//
+// Every driver implements (all async):
+//   listDrawings()                          → [{ id, name, createdAt, updatedAt }], newest first
+//   createDrawing({ id, name })             → metadata + editToken/viewToken
+//   findDrawing(id, { snapshot = true })    → the drawing (legacy ones may lack revision/tokens) or null
+//   renameDrawing(id, name)                 → metadata or null
+//   deleteDrawing(id)                       → whether it existed (its change log, preview, comments and
+//                                             revisions go too)
+//   ensureShareTokens(id, tokens)           → { id, editToken, viewToken } (sets `tokens` if it had none) or null
+//   saveSnapshot(id, snapshot, baseRevision)→ { ok, revision, editToken, viewToken } or { ok: false, revision }
+//                                             when the drawing isn't at baseRevision (undefined: always save)
+//   applyChanges(id, changes)               → { ok, revision } or { ok: false } without a stored snapshot
+//                                             (no base revision: last writer wins per record)
+//   replaceSnapshot(id, revision, snapshot) → write without bumping revision/updatedAt, only at `revision`
+//   drawingSnapshots()                      → async iterable of { id, revision, snapshot }
+//   assetSources()                          → async iterable of every asset record `src` in stored snapshots,
+//                                             revisions and logged changes
+//   appendChange(drawingId, { changes, clientId, expiresAt })
+//                                           → the drawing's next change seq, or null if it doesn't exist
+//   listChanges(drawingId, { after, limit })→ [{ seq, clientId, changes, createdAt }] with seq > after, in order
+//   savePreview(drawingId, { data, mimeType, width, height })
+//                                           → { updatedAt } of the stored thumbnail, or null if no drawing
+//   findPreview(drawingId)                  → { data, mimeType, width, height, updatedAt } or null
+//   listCommentThreads(drawingId)           → the drawing's comment threads (see comments.js), oldest first
+//   findCommentThread(drawingId, threadId)  → one thread or null
+//   insertCommentThread(thread)             → the stored thread, or null if the drawing doesn't exist
+//   addComment(drawingId, threadId, comment)→ the thread with `comment` appended, or null
+//   updateCommentThread(drawingId, threadId, fields) → the thread with `fields` set, or null
+//   deleteCommentThread(drawingId, threadId)→ whether it existed
+//   listDrawingRevisions(drawingId)         → [{ id, drawingId, revision, kind, name, createdAt }] (no snapshot),
+//                                             newest first (see checkpoints.js)
+//   findDrawingRevision(drawingId, id)      → one revision with its snapshot, or null
+//   insertDrawingRevision(entry)            → the revision without its snapshot, or null if the drawing doesn't exist
+//   lastDrawingRevisionAt(drawingId, kind)  → createdAt of the newest revision of that kind, or null
+//   pruneDrawingRevisions(drawingId, { keep, before })
+//                                           → how many auto revisions were deleted: all but the newest `keep`,
+//                                             and any created before `before`
+//   deleteDrawingRevision(drawingId, id)    → whether it existed
+//   findAsset(id)                           → asset metadata (no bytes) or null
+//   reuseAsset(drawingId, sha256)           → metadata of the matching asset, with updatedAt bumped, or null
+//   insertAsset(asset)                      → false when the drawing already has an asset with that sha256
+//   readAssetData / writeAssetData / deleteAssetData(id) – bytes kept in the database (assetStorage.js)
+//   staleAssets(cutoff)                     → async iterable of assets last updated before `cutoff`
+//   deleteStaleAsset(id, cutoff)            → whether it was deleted (only while still older than `cutoff`)
+//   ping()                                  – one round trip to the database (for /api/ping)
+//   close()
 
-// Mongoose Model
-const DrawingSchema = new mongoose.Schema({
-  id: {
-    type: String,
-    required: true,
-    unique: true,
-    default: 'global-canvas'
-  },
-  snapshot: {
-    type: mongoose.Schema.Types.Mixed,
-    required: true
-  }
-}, {
-  timestamps: true,
-  strict: false
-});
-
-const Drawing = mongoose.models.Drawing || mongoose.model('Drawing', DrawingSchema);
-
-// Asset storage (images etc.) for cross-tab sync – served at /api/asset/:id
-const AssetSchema = new mongoose.Schema({
-  id: { type: String, required: true, unique: true },
-  mimeType: { type: String, required: true },
-  data: { type: Buffer, required: true },
-}, { timestamps: true });
-
-const Asset = mongoose.models.Asset || mongoose.model('Asset', AssetSchema);
- 
-// Cached connection for Serverless Functions
-let cachedDb = null;
- 
-async function connectToDatabase() {
-  if (cachedDb && mongoose.connection.readyState === 1) {
-    return cachedDb;
-  }
+export const DB_DRIVER = (process.env.DB_DRIVER || (process.env.MONGODB_URI ? 'mongo' : 'file')).toLowerCase();
 
-  if (!process.env.MONGODB_URI) {
-    console.error('SERVERLESS ERROR: MONGODB_URI is not defined');
-    throw new Error('MONGODB_URI environment variable is not defined');
-  }
-
-  // Diagnostic logging (Redacted)
-  const uri = process.env.MONGODB_URI;
-  const length = uri.length;
-  const prefix = uri.substring(0, 15);
-  const isValidScheme = uri.startsWith('mongodb://') || uri.startsWith('mongodb+srv://');
-
-  console.log(`Connecting to MongoDB... (Length: ${length}, Prefix: "${prefix}...", Valid Scheme: ${isValidScheme})`);
+let database = null; // Promise<db>, shared by every request in the process
 
-  if (!isValidScheme) {
-    console.error(`SERVERLESS ERROR: Invalid MongoDB URI scheme. Expected "mongodb://" or "mongodb+srv://". Got: "${prefix}..."`);
-    throw new Error(`Invalid MongoDB connection string scheme. Check your MONGODB_URI environment variable.`);
+async function openDatabase(driver) {
+  switch (driver) {
+    case 'mongo': {
+      const { createMongoDatabase } = await import('./db/mongo.js');
+      return createMongoDatabase(process.env.MONGODB_URI);
+    }
+    case 'sqlite': {
+      const { createSqliteDatabase } = await import('./db/sqlite.js');
+      return createSqliteDatabase(process.env.SQLITE_PATH || 'data/dessimbol.sqlite');
+    }
+    case 'file': {
+      const { createMemoryDatabase } = await import('./db/memory.js');
+      return createMemoryDatabase({ file: process.env.DB_FILE || 'data/db.json' });
+    }
+    case 'memory': {
+      const { createMemoryDatabase } = await import('./db/memory.js');
+      return createMemoryDatabase();
+    }
+    default:
+      throw new Error(`Unknown DB_DRIVER "${driver}" (expected mongo, sqlite, file or memory)`);
   }
+}
 
-  try {
-    const db = await mongoose.connect(uri, {
-      bufferCommands: false,
+// The configured database, opened on first use
+export function connectToDatabase() {
+  if (!database) {
+    database = openDatabase(DB_DRIVER);
+    // Let the next request retry a failed connection
+    database.catch(() => {
+      database = null;
     });
-    console.log('MongoDB connected successfully');
-    cachedDb = db;
-    return db;
-  } catch (err) {
-    console.error('SERVERLESS ERROR: MongoDB connection failed', err);
-    throw err;
   }
+  return database;
 }
-
-export {
-  connectToDatabase,
-  Drawing,
-  Asset,
-};
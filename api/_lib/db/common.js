@@ -0,0 +1,50 @@
+import { generateShareToken } from '../access.js';
+
+// Helpers shared by the SQLite and in-memory drivers (Mongo gets the same from its schemas)
+
+export const DEFAULT_DRAWING_NAME = 'Untitled drawing';
+
+// A brand-new drawing row: share tokens are generated up front, like the Mongo schema defaults
+export function newDrawing(id, name) {
+  const now = new Date();
+  return {
+    id,
+    name: name || DEFAULT_DRAWING_NAME,
+    revision: 0,
+    editToken: generateShareToken(),
+    viewToken: generateShareToken(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// What the drawing list and rename hand back
+export function drawingMetadata(drawing) {
+  return { id: drawing.id, name: drawing.name, createdAt: drawing.createdAt, updatedAt: drawing.updatedAt };
+}
+
+// `src` of every asset record in a snapshot
+export function* assetSources(snapshot) {
+  for (const record of Object.values(snapshot?.store ?? {})) {
+    if (record?.typeName === 'asset') yield record.props?.src;
+  }
+}
+
+// `src` of every asset record a logged diff adds, updates or removes
+export function* changeAssetSources(changes) {
+  const records = [
+    ...Object.values(changes?.added ?? {}),
+    ...Object.values(changes?.updated ?? {}).flat(),
+    ...Object.values(changes?.removed ?? {}),
+  ];
+  for (const record of records) {
+    if (record?.typeName === 'asset') yield record.props?.src;
+  }
+}
+
+// Whether a save based on `baseRevision` may overwrite a drawing currently at `current`
+// (undefined when it doesn't exist). Mirrors the Mongo driver's revision filter + upsert.
+export function canSaveAt(current, baseRevision) {
+  if (baseRevision === undefined) return true;
+  return current === undefined ? baseRevision === 0 : current === baseRevision;
+}
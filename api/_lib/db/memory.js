@@ -0,0 +1,469 @@
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { applyChangesToSnapshot } from '../diff.js';
+import { assetSources, canSaveAt, changeAssetSources, drawingMetadata, newDrawing } from './common.js';
+
+// In-memory driver (DB_DRIVER=memory). With a `file` (DB_DRIVER=file) everything is also
+// written to that JSON file after each change and loaded from it on startup – handy for local
+// development, not for more than one server process. The change log, written on every broadcast,
+// goes to its own append-only file next to it (`<file>.changes.jsonl`, one entry per line) and is
+// rewritten only once most of its lines have expired. Records are copied in and out so callers
+// can't change stored data by accident.
+
+// The change log is compacted once it has this many lines and at least half of them are dead
+const LOG_COMPACT_LINES = 1000;
+
+function assetMetadata({ data, ...asset }) {
+  return { ...asset };
+}
+
+function revisionMetadata({ snapshot, ...entry }) {
+  return { ...entry, createdAt: new Date(entry.createdAt) };
+}
+
+function threadFromJson(thread) {
+  return {
+    ...thread,
+    resolvedAt: thread.resolvedAt ? new Date(thread.resolvedAt) : null,
+    comments: thread.comments.map((comment) => ({ ...comment, createdAt: new Date(comment.createdAt) })),
+    createdAt: new Date(thread.createdAt),
+    updatedAt: new Date(thread.updatedAt),
+  };
+}
+
+// Entries of an append-only change log file. A crash mid-append can leave a partial last line.
+async function loadChangeLog(logFile) {
+  let text;
+  try {
+    text = await readFile(logFile, 'utf8');
+  } catch (err) {
+    if (err.code === 'ENOENT') return [];
+    throw new Error(`Could not read change log file ${logFile}: ${err.message}`);
+  }
+  return text.split('\n').flatMap((line) => {
+    try {
+      return line ? [JSON.parse(line)] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+async function writeAtomically(file, text) {
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so a crash mid-write never leaves a truncated file
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await writeFile(tmp, text);
+  await rename(tmp, file);
+}
+
+async function load(file) {
+  let json;
+  try {
+    json = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return { drawings: [], changes: [], previews: [], comments: [], revisions: [], assets: [] };
+    throw new Error(`Could not read database file ${file}: ${err.message}`);
+  }
+  return {
+    drawings: (json.drawings ?? []).map((drawing) => ({
+      ...drawing,
+      createdAt: new Date(drawing.createdAt),
+      updatedAt: new Date(drawing.updatedAt),
+    })),
+    changes: json.changes ?? [],
+    previews: (json.previews ?? []).map((preview) => ({
+      ...preview,
+      data: Buffer.from(preview.data, 'base64'),
+      updatedAt: new Date(preview.updatedAt),
+    })),
+    comments: (json.comments ?? []).map(threadFromJson),
+    revisions: (json.revisions ?? []).map((entry) => ({ ...entry, createdAt: new Date(entry.createdAt) })),
+    assets: (json.assets ?? []).map((asset) => ({
+      ...asset,
+      data: asset.data !== undefined ? Buffer.from(asset.data, 'base64') : undefined,
+      createdAt: new Date(asset.createdAt),
+      updatedAt: new Date(asset.updatedAt),
+    })),
+  };
+}
+
+export async function createMemoryDatabase({ file } = {}) {
+  const initial = file ? await load(file) : { drawings: [], changes: [], previews: [], comments: [], revisions: [], assets: [] };
+  const drawings = new Map(initial.drawings.map((drawing) => [drawing.id, drawing]));
+  const previews = new Map(initial.previews.map((preview) => [preview.drawingId, preview]));
+  const assets = new Map(initial.assets.map((asset) => [asset.id, asset]));
+  // Comment threads in creation order
+  const commentThreads = new Map(initial.comments.map((thread) => [thread.id, thread]));
+  // Saved copies of drawings, oldest first
+  let revisions = initial.revisions;
+  const logFile = file && `${file}.changes.jsonl`;
+  const logged = logFile ? await loadChangeLog(logFile) : [];
+  // Change log entries, ordered by seq within each drawing. Older database files kept them inline.
+  let changeLog = [...initial.changes, ...logged].filter((entry) => drawings.has(entry.drawingId));
+  // Lines in the log file, live or not
+  let logLines = logged.length;
+  // Appends don't rewrite the database file, so its changeSeq can lag behind the log
+  for (const entry of changeLog) {
+    const drawing = drawings.get(entry.drawingId);
+    drawing.changeSeq = Math.max(drawing.changeSeq ?? 0, entry.seq);
+  }
+
+  async function write() {
+    const json = JSON.stringify({
+      drawings: [...drawings.values()],
+      previews: [...previews.values()].map((preview) => ({ ...preview, data: preview.data.toString('base64') })),
+      comments: [...commentThreads.values()],
+      revisions,
+      assets: [...assets.values()].map((asset) => ({ ...asset, data: asset.data?.toString('base64') })),
+    });
+    await writeAtomically(file, json);
+  }
+
+  // Changes made before a pending write starts share it; writes never overlap
+  let pending = null;
+  let lastWrite = Promise.resolve();
+  function persist() {
+    if (!file) return Promise.resolve();
+    if (!pending) {
+      pending = lastWrite.then(() => {
+        pending = null;
+        return write();
+      });
+      lastWrite = pending.catch(() => {});
+    }
+    return pending;
+  }
+
+  // Log file writes run one after another, in the order they were made
+  let logWrite = Promise.resolve();
+  function queueLogWrite(run) {
+    const write = logWrite.then(run);
+    logWrite = write.catch(() => {});
+    return write;
+  }
+
+  function appendToLog(entry) {
+    if (!logFile) return Promise.resolve();
+    const line = `${JSON.stringify(entry)}\n`;
+    logLines += 1;
+    return queueLogWrite(async () => {
+      await mkdir(path.dirname(logFile), { recursive: true });
+      await appendFile(logFile, line);
+    });
+  }
+
+  // Rewrite the log file with just the live entries once most of its lines are dead
+  function compactLog({ force = false } = {}) {
+    if (!logFile || (!force && (logLines < LOG_COMPACT_LINES || logLines < 2 * changeLog.length))) {
+      return Promise.resolve();
+    }
+    // Taken now: entries logged from here on are appended after the rewrite
+    const text = changeLog.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    logLines = changeLog.length;
+    return queueLogWrite(() => writeAtomically(logFile, text));
+  }
+
+  // Move entries from an older database file into the log file before the next write drops them
+  if (initial.changes.length > 0) await compactLog({ force: true });
+
+  function findThread(drawingId, threadId) {
+    const thread = commentThreads.get(threadId);
+    return thread?.drawingId === drawingId ? thread : undefined;
+  }
+
+  function findAssetByHash(drawingId, sha256) {
+    for (const asset of assets.values()) {
+      if (asset.sha256 && asset.drawingId === drawingId && asset.sha256 === sha256) return asset;
+    }
+    return undefined;
+  }
+
+  return {
+    driver: file ? 'file' : 'memory',
+
+    async listDrawings() {
+      return [...drawings.values()].sort((a, b) => b.updatedAt - a.updatedAt).map(drawingMetadata);
+    },
+
+    async createDrawing({ id, name }) {
+      const drawing = newDrawing(id, name);
+      drawings.set(id, drawing);
+      await persist();
+      return { ...drawingMetadata(drawing), editToken: drawing.editToken, viewToken: drawing.viewToken };
+    },
+
+    async findDrawing(id, { snapshot = true } = {}) {
+      const drawing = drawings.get(id);
+      if (!drawing) return null;
+      if (!snapshot) {
+        const { snapshot: _snapshot, ...rest } = drawing;
+        return { ...rest };
+      }
+      return structuredClone(drawing);
+    },
+
+    async renameDrawing(id, name) {
+      const drawing = drawings.get(id);
+      if (!drawing) return null;
+      drawing.name = name;
+      drawing.updatedAt = new Date();
+      await persist();
+      return drawingMetadata(drawing);
+    },
+
+    async deleteDrawing(id) {
+      if (!drawings.delete(id)) return false;
+      changeLog = changeLog.filter((entry) => entry.drawingId !== id);
+      previews.delete(id);
+      for (const thread of [...commentThreads.values()]) {
+        if (thread.drawingId === id) commentThreads.delete(thread.id);
+      }
+      revisions = revisions.filter((entry) => entry.drawingId !== id);
+      await persist();
+      return true;
+    },
+
+    async ensureShareTokens(id, tokens) {
+      const drawing = drawings.get(id);
+      if (!drawing) return null;
+      if (!drawing.editToken) {
+        Object.assign(drawing, tokens);
+        await persist();
+      }
+      return { id, editToken: drawing.editToken, viewToken: drawing.viewToken };
+    },
+
+    async saveSnapshot(id, snapshot, baseRevision) {
+      let drawing = drawings.get(id);
+      if (!canSaveAt(drawing && (drawing.revision ?? 0), baseRevision)) {
+        return { ok: false, revision: drawing?.revision ?? 0 };
+      }
+      if (!drawing) {
+        drawing = newDrawing(id);
+        drawings.set(id, drawing);
+      }
+      drawing.snapshot = structuredClone(snapshot);
+      drawing.revision = (drawing.revision ?? 0) + 1;
+      drawing.updatedAt = new Date();
+      await persist();
+      return { ok: true, revision: drawing.revision, editToken: drawing.editToken, viewToken: drawing.viewToken };
+    },
+
+    async applyChanges(id, changes) {
+      const drawing = drawings.get(id);
+      if (!drawing?.snapshot?.store) return { ok: false };
+      drawing.snapshot = applyChangesToSnapshot(drawing.snapshot, structuredClone(changes));
+      drawing.revision = (drawing.revision ?? 0) + 1;
+      drawing.updatedAt = new Date();
+      await persist();
+      return { ok: true, revision: drawing.revision };
+    },
+
+    async replaceSnapshot(id, revision, snapshot) {
+      const drawing = drawings.get(id);
+      if (!drawing || (drawing.revision ?? 0) !== revision) return false;
+      drawing.snapshot = structuredClone(snapshot);
+      await persist();
+      return true;
+    },
+
+    async *drawingSnapshots() {
+      for (const { id, revision, snapshot } of [...drawings.values()]) {
+        yield { id, revision, snapshot: structuredClone(snapshot) };
+      }
+    },
+
+    async *assetSources() {
+      for (const drawing of [...drawings.values()]) yield* assetSources(drawing.snapshot);
+      for (const entry of [...revisions]) yield* assetSources(entry.snapshot);
+      for (const entry of [...changeLog]) yield* changeAssetSources(entry.changes);
+    },
+
+    async appendChange(drawingId, { changes, clientId, expiresAt }) {
+      const drawing = drawings.get(drawingId);
+      if (!drawing) return null;
+      drawing.changeSeq = (drawing.changeSeq ?? 0) + 1;
+      const now = new Date();
+      changeLog = changeLog.filter((entry) => !entry.expiresAt || new Date(entry.expiresAt) > now);
+      const entry = {
+        drawingId,
+        seq: drawing.changeSeq,
+        clientId: clientId ?? null,
+        changes: structuredClone(changes),
+        createdAt: now,
+        expiresAt,
+      };
+      changeLog.push(entry);
+      await appendToLog(entry);
+      await compactLog();
+      return drawing.changeSeq;
+    },
+
+    async listChanges(drawingId, { after = 0, limit }) {
+      return changeLog
+        .filter((entry) => entry.drawingId === drawingId && entry.seq > after)
+        .slice(0, limit)
+        .map(({ seq, clientId, changes, createdAt }) => ({
+          seq,
+          clientId,
+          changes: structuredClone(changes),
+          createdAt: new Date(createdAt),
+        }));
+    },
+
+    async savePreview(drawingId, { data, mimeType, width, height }) {
+      if (!drawings.has(drawingId)) return null;
+      const updatedAt = new Date();
+      previews.set(drawingId, { drawingId, data: Buffer.from(data), mimeType, width, height, updatedAt });
+      await persist();
+      return { updatedAt };
+    },
+
+    async findPreview(drawingId) {
+      const preview = previews.get(drawingId);
+      if (!preview) return null;
+      const { drawingId: _drawingId, ...rest } = preview;
+      return { ...rest, data: Buffer.from(preview.data) };
+    },
+
+    async listCommentThreads(drawingId) {
+      return [...commentThreads.values()].filter((thread) => thread.drawingId === drawingId).map((thread) => structuredClone(thread));
+    },
+
+    async findCommentThread(drawingId, threadId) {
+      const thread = findThread(drawingId, threadId);
+      return thread ? structuredClone(thread) : null;
+    },
+
+    async insertCommentThread(thread) {
+      if (!drawings.has(thread.drawingId)) return null;
+      commentThreads.set(thread.id, structuredClone(thread));
+      await persist();
+      return structuredClone(thread);
+    },
+
+    async addComment(drawingId, threadId, comment) {
+      const thread = findThread(drawingId, threadId);
+      if (!thread) return null;
+      thread.comments.push(structuredClone(comment));
+      thread.updatedAt = new Date();
+      await persist();
+      return structuredClone(thread);
+    },
+
+    async updateCommentThread(drawingId, threadId, fields) {
+      const thread = findThread(drawingId, threadId);
+      if (!thread) return null;
+      Object.assign(thread, structuredClone(fields), { updatedAt: new Date() });
+      await persist();
+      return structuredClone(thread);
+    },
+
+    async deleteCommentThread(drawingId, threadId) {
+      if (!findThread(drawingId, threadId)) return false;
+      commentThreads.delete(threadId);
+      await persist();
+      return true;
+    },
+
+    async listDrawingRevisions(drawingId) {
+      return revisions.filter((entry) => entry.drawingId === drawingId).reverse().map(revisionMetadata);
+    },
+
+    async findDrawingRevision(drawingId, id) {
+      const entry = revisions.find((e) => e.id === id && e.drawingId === drawingId);
+      return entry ? structuredClone(entry) : null;
+    },
+
+    async insertDrawingRevision(entry) {
+      if (!drawings.has(entry.drawingId)) return null;
+      revisions.push(structuredClone({ ...entry, name: entry.name ?? null }));
+      await persist();
+      return revisionMetadata({ ...entry, name: entry.name ?? null });
+    },
+
+    async lastDrawingRevisionAt(drawingId, kind) {
+      const entry = revisions.findLast((e) => e.drawingId === drawingId && e.kind === kind);
+      return entry ? new Date(entry.createdAt) : null;
+    },
+
+    async pruneDrawingRevisions(drawingId, { keep, before }) {
+      const auto = revisions.filter((entry) => entry.drawingId === drawingId && entry.kind === 'auto');
+      const stale = new Set(auto.filter((entry, i) => i < auto.length - keep || entry.createdAt < before));
+      if (stale.size === 0) return 0;
+      revisions = revisions.filter((entry) => !stale.has(entry));
+      await persist();
+      return stale.size;
+    },
+
+    async deleteDrawingRevision(drawingId, id) {
+      const before = revisions.length;
+      revisions = revisions.filter((entry) => !(entry.id === id && entry.drawingId === drawingId));
+      if (revisions.length === before) return false;
+      await persist();
+      return true;
+    },
+
+    async findAsset(id) {
+      const asset = assets.get(id);
+      return asset ? assetMetadata(asset) : null;
+    },
+
+    async reuseAsset(drawingId, sha256) {
+      const asset = findAssetByHash(drawingId, sha256);
+      if (!asset) return null;
+      asset.updatedAt = new Date();
+      await persist();
+      return assetMetadata(asset);
+    },
+
+    async insertAsset({ data, ...asset }) {
+      if (asset.sha256 && findAssetByHash(asset.drawingId, asset.sha256)) return false;
+      const now = new Date();
+      assets.set(asset.id, { ...asset, data: data && Buffer.from(data), createdAt: now, updatedAt: now });
+      await persist();
+      return true;
+    },
+
+    async readAssetData(id) {
+      const data = assets.get(id)?.data;
+      return data ? Buffer.from(data) : null;
+    },
+
+    async writeAssetData(id, data) {
+      const asset = assets.get(id);
+      if (!asset) return;
+      asset.data = Buffer.from(data);
+      await persist();
+    },
+
+    async deleteAssetData(id) {
+      const asset = assets.get(id);
+      if (!asset) return;
+      delete asset.data;
+      await persist();
+    },
+
+    async *staleAssets(cutoff) {
+      for (const asset of [...assets.values()]) {
+        if (asset.updatedAt < cutoff) yield assetMetadata(asset);
+      }
+    },
+
+    async deleteStaleAsset(id, cutoff) {
+      const asset = assets.get(id);
+      if (!asset || asset.updatedAt >= cutoff) return false;
+      assets.delete(id);
+      await persist();
+      return true;
+    },
+
+    async ping() {},
+
+    async close() {
+      await lastWrite;
+    },
+  };
+}
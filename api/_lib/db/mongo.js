@@ -0,0 +1,498 @@
+import mongoose from 'mongoose';
+import { generateShareToken } from '../access.js';
+import { createLogger } from '../log.js';
+import { assetSources, changeAssetSources } from './common.js';
+
+// MongoDB driver (DB_DRIVER=mongo, needs MONGODB_URI)
+
+const log = createLogger('db');
+
+const DrawingSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  name: {
+    type: String,
+    default: 'Untitled drawing'
+  },
+  snapshot: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  revision: {
+    type: Number,
+    default: 0
+  },
+  // Share tokens (see access.js); also filled in when a drawing is created by an upsert
+  editToken: {
+    type: String,
+    default: generateShareToken
+  },
+  viewToken: {
+    type: String,
+    default: generateShareToken
+  }
+}, {
+  timestamps: true,
+  strict: false
+});
+
+const Drawing = mongoose.models.Drawing || mongoose.model('Drawing', DrawingSchema);
+
+// Asset storage (images etc.) for cross-tab sync – served at /api/asset/:id
+const AssetSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true },
+  drawingId: { type: String },
+  mimeType: { type: String, required: true },
+  // Bytes for the database storage backend; other backends keep them elsewhere (see assetStorage.js)
+  data: { type: Buffer },
+  storage: { type: String },
+  // Content hash (see assets.js); older assets have none
+  sha256: { type: String },
+  size: { type: Number },
+}, { timestamps: true });
+AssetSchema.index({ drawingId: 1, sha256: 1 }, { unique: true, partialFilterExpression: { sha256: { $exists: true } } });
+
+const Asset = mongoose.models.Asset || mongoose.model('Asset', AssetSchema);
+
+// Recent diffs broadcast over Pusher, numbered per drawing (see broadcast.js)
+const DrawingChangeSchema = new mongoose.Schema({
+  drawingId: { type: String, required: true },
+  seq: { type: Number, required: true },
+  clientId: { type: String },
+  // JSON text: record ids aren't always valid Mongo field names
+  changes: { type: String, required: true },
+  expiresAt: { type: Date },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+DrawingChangeSchema.index({ drawingId: 1, seq: 1 }, { unique: true });
+DrawingChangeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const DrawingChange = mongoose.models.DrawingChange || mongoose.model('DrawingChange', DrawingChangeSchema);
+
+// One downscaled PNG per drawing for link previews and the drawing list
+const DrawingPreviewSchema = new mongoose.Schema({
+  drawingId: { type: String, required: true, unique: true },
+  data: { type: Buffer, required: true },
+  mimeType: { type: String, required: true },
+  width: { type: Number },
+  height: { type: Number },
+}, { timestamps: { createdAt: false, updatedAt: true } });
+
+const DrawingPreview = mongoose.models.DrawingPreview || mongoose.model('DrawingPreview', DrawingPreviewSchema);
+
+// Comment threads (see comments.js), with their comments embedded
+const CommentSchema = new mongoose.Schema({
+  id: { type: String, required: true },
+  author: { id: String, name: String, color: String },
+  body: { type: String, required: true },
+  createdAt: { type: Date, required: true },
+}, { _id: false });
+
+const CommentThreadSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true },
+  drawingId: { type: String, required: true, index: true },
+  anchor: { pageId: String, x: Number, y: Number, shapeId: String },
+  resolved: { type: Boolean, default: false },
+  resolvedBy: { id: String, name: String, color: String },
+  resolvedAt: { type: Date },
+  comments: [CommentSchema],
+}, { timestamps: true });
+
+const CommentThread = mongoose.models.CommentThread || mongoose.model('CommentThread', CommentThreadSchema);
+
+// Saved copies of drawings: auto and named checkpoints (see checkpoints.js)
+const DrawingRevisionSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true },
+  drawingId: { type: String, required: true },
+  revision: { type: Number, required: true },
+  kind: { type: String, enum: ['auto', 'named'], required: true },
+  name: { type: String },
+  // JSON text, like the change log
+  snapshot: { type: String, required: true },
+  createdAt: { type: Date, required: true },
+});
+DrawingRevisionSchema.index({ drawingId: 1, kind: 1, createdAt: -1 });
+
+const DrawingRevision = mongoose.models.DrawingRevision || mongoose.model('DrawingRevision', DrawingRevisionSchema);
+
+const DRAWING_METADATA = { _id: 0, id: 1, name: 1, createdAt: 1, updatedAt: 1 };
+// Fields handed back after a save
+const SAVE_PROJECTION = { revision: 1, editToken: 1, viewToken: 1 };
+const ASSET_METADATA = { _id: 0, __v: 0, data: 0 };
+const THREAD_PROJECTION = { _id: 0, __v: 0 };
+const REVISION_METADATA = { _id: 0, id: 1, drawingId: 1, revision: 1, kind: 1, name: 1, createdAt: 1 };
+
+// Unset optional fields come back missing from lean() documents
+function threadFromDocument(thread) {
+  if (!thread) return null;
+  return { ...thread, resolvedBy: thread.resolvedBy?.id ? thread.resolvedBy : null, resolvedAt: thread.resolvedAt ?? null };
+}
+
+function revisionMetadata({ snapshot, ...entry }) {
+  return { ...entry, name: entry.name ?? null };
+}
+
+// Matches the drawing only while it is still at `revision`. Documents saved before revisions
+// existed have no `revision` field and count as 0.
+function revisionFilter(id, revision) {
+  return revision === 0 ? { id, revision: { $in: [0, null] } } : { id, revision };
+}
+
+// Record ids become Mongo field names below `snapshot.store`, so they must not contain
+// path separators or operators.
+function assertSafeRecordId(id) {
+  if (typeof id !== 'string' || !id || id.length > 256 || id.includes('.') || id.startsWith('$')) {
+    const err = new Error(`Invalid record id: ${String(id).slice(0, 64)}`);
+    err.status = 400;
+    throw err;
+  }
+}
+
+// Translate a record diff into a single Mongo update touching only the changed records
+function changesToMongoUpdate(changes) {
+  const $set = {};
+  const $unset = {};
+
+  for (const id of Object.keys(changes?.removed ?? {})) {
+    assertSafeRecordId(id);
+    $unset[`snapshot.store.${id}`] = '';
+  }
+  for (const [id, record] of Object.entries(changes?.added ?? {})) {
+    assertSafeRecordId(id);
+    $set[`snapshot.store.${id}`] = record;
+  }
+  for (const [id, pair] of Object.entries(changes?.updated ?? {})) {
+    assertSafeRecordId(id);
+    $set[`snapshot.store.${id}`] = Array.isArray(pair) ? pair[1] : pair;
+  }
+
+  const update = { $inc: { revision: 1 } };
+  if (Object.keys($set).length > 0) update.$set = $set;
+  if (Object.keys($unset).length > 0) update.$unset = $unset;
+  return update;
+}
+
+function saved(drawing) {
+  return { ok: true, revision: drawing.revision, editToken: drawing.editToken, viewToken: drawing.viewToken };
+}
+
+async function connect(uri) {
+  if (!uri) {
+    log.error('MONGODB_URI is not defined');
+    throw new Error('MONGODB_URI environment variable is not defined');
+  }
+
+  // Diagnostic logging (Redacted)
+  const length = uri.length;
+  const prefix = uri.substring(0, 15);
+  const isValidScheme = uri.startsWith('mongodb://') || uri.startsWith('mongodb+srv://');
+
+  log.info('Connecting to MongoDB', { uriLength: length, uriPrefix: `${prefix}...`, validScheme: isValidScheme });
+
+  if (!isValidScheme) {
+    log.error('Invalid MongoDB URI scheme, expected mongodb:// or mongodb+srv://', { uriPrefix: `${prefix}...` });
+    throw new Error(`Invalid MongoDB connection string scheme. Check your MONGODB_URI environment variable.`);
+  }
+
+  try {
+    await mongoose.connect(uri, {
+      bufferCommands: false,
+    });
+    log.info('MongoDB connected');
+  } catch (err) {
+    log.error('MongoDB connection failed', { err });
+    throw err;
+  }
+}
+
+export async function createMongoDatabase(uri) {
+  // Mongoose reconnects on its own once connected, so this only runs once per process
+  if (mongoose.connection.readyState !== 1) await connect(uri);
+
+  return {
+    driver: 'mongo',
+
+    listDrawings() {
+      return Drawing.find({}, DRAWING_METADATA).sort({ updatedAt: -1 }).lean();
+    },
+
+    async createDrawing({ id, name }) {
+      const drawing = await Drawing.create({ id, name });
+      return {
+        id: drawing.id,
+        name: drawing.name,
+        createdAt: drawing.createdAt,
+        updatedAt: drawing.updatedAt,
+        editToken: drawing.editToken,
+        viewToken: drawing.viewToken,
+      };
+    },
+
+    // lean() so legacy documents don't get token defaults filled in
+    findDrawing(id, { snapshot = true } = {}) {
+      return Drawing.findOne({ id }, snapshot ? { _id: 0, __v: 0 } : { _id: 0, __v: 0, snapshot: 0 }).lean();
+    },
+
+    renameDrawing(id, name) {
+      return Drawing.findOneAndUpdate({ id }, { name }, { new: true, projection: DRAWING_METADATA }).lean();
+    },
+
+    async deleteDrawing(id) {
+      const result = await Drawing.deleteOne({ id });
+      await DrawingChange.deleteMany({ drawingId: id });
+      await DrawingPreview.deleteOne({ drawingId: id });
+      await CommentThread.deleteMany({ drawingId: id });
+      await DrawingRevision.deleteMany({ drawingId: id });
+      return result.deletedCount > 0;
+    },
+
+    async ensureShareTokens(id, tokens) {
+      const projection = { _id: 0, id: 1, editToken: 1, viewToken: 1 };
+      const claimed = await Drawing.findOneAndUpdate(
+        { id, editToken: { $exists: false } },
+        { $set: tokens },
+        { new: true, projection }
+      ).lean();
+      // Already had tokens, or lost a race with a concurrent call: use the stored ones
+      return claimed ?? Drawing.findOne({ id }, projection).lean();
+    },
+
+    async saveSnapshot(id, snapshot, baseRevision) {
+      const update = { $set: { snapshot }, $inc: { revision: 1 } };
+      const options = { new: true, setDefaultsOnInsert: true, projection: SAVE_PROJECTION };
+
+      if (baseRevision === undefined) {
+        const drawing = await Drawing.findOneAndUpdate({ id }, update, { ...options, upsert: true }).lean();
+        return saved(drawing);
+      }
+
+      try {
+        const drawing = await Drawing.findOneAndUpdate(
+          revisionFilter(id, baseRevision),
+          update,
+          { ...options, upsert: baseRevision === 0 }
+        ).lean();
+        if (drawing) return saved(drawing);
+      } catch (err) {
+        // Upsert raced with an existing document: that is a conflict, not a failure
+        if (err.code !== 11000) throw err;
+      }
+
+      const current = await Drawing.findOne({ id }, { revision: 1 }).lean();
+      return { ok: false, revision: current?.revision ?? 0 };
+    },
+
+    // Per-record $set/$unset, so concurrent diffs to different records don't clobber each other
+    async applyChanges(id, changes) {
+      const drawing = await Drawing.findOneAndUpdate(
+        { id, 'snapshot.store': { $exists: true } },
+        changesToMongoUpdate(changes),
+        { new: true, projection: { revision: 1 } }
+      ).lean();
+      return drawing ? { ok: true, revision: drawing.revision } : { ok: false };
+    },
+
+    async replaceSnapshot(id, revision, snapshot) {
+      const result = await Drawing.updateOne(revisionFilter(id, revision), { $set: { snapshot } }, { timestamps: false });
+      return result.modifiedCount > 0;
+    },
+
+    async *drawingSnapshots() {
+      yield* Drawing.find({}, { _id: 0, id: 1, revision: 1, snapshot: 1 }).lean().cursor();
+    },
+
+    // Only the asset records' `src` leaves Mongo for drawings; checkpoints and the change log are
+    // JSON text and parsed here
+    async *assetSources() {
+      const cursor = Drawing.aggregate([
+        { $match: { 'snapshot.store': { $type: 'object' } } },
+        { $project: { record: { $objectToArray: '$snapshot.store' } } },
+        { $unwind: '$record' },
+        { $match: { 'record.v.typeName': 'asset' } },
+        { $project: { _id: 0, src: '$record.v.props.src' } },
+      ]).cursor();
+      for await (const { src } of cursor) yield src;
+      for await (const { snapshot } of DrawingRevision.find({}, { _id: 0, snapshot: 1 }).lean().cursor()) {
+        yield* assetSources(JSON.parse(snapshot));
+      }
+      for await (const { changes } of DrawingChange.find({}, { _id: 0, changes: 1 }).lean().cursor()) {
+        yield* changeAssetSources(JSON.parse(changes));
+      }
+    },
+
+    async appendChange(drawingId, { changes, clientId, expiresAt }) {
+      const drawing = await Drawing.findOneAndUpdate(
+        { id: drawingId },
+        { $inc: { changeSeq: 1 } },
+        { new: true, projection: { changeSeq: 1 }, timestamps: false }
+      ).lean();
+      if (!drawing) return null;
+      await DrawingChange.create({
+        drawingId,
+        seq: drawing.changeSeq,
+        clientId: clientId ?? undefined,
+        changes: JSON.stringify(changes),
+        expiresAt,
+      });
+      return drawing.changeSeq;
+    },
+
+    async listChanges(drawingId, { after = 0, limit }) {
+      const entries = await DrawingChange.find({ drawingId, seq: { $gt: after } }, { _id: 0, seq: 1, clientId: 1, changes: 1, createdAt: 1 })
+        .sort({ seq: 1 })
+        .limit(limit)
+        .lean();
+      return entries.map((entry) => ({ ...entry, clientId: entry.clientId ?? null, changes: JSON.parse(entry.changes) }));
+    },
+
+    async savePreview(drawingId, { data, mimeType, width, height }) {
+      if (!(await Drawing.exists({ id: drawingId }))) return null;
+      const preview = await DrawingPreview.findOneAndUpdate(
+        { drawingId },
+        { $set: { data, mimeType, width, height } },
+        { upsert: true, new: true, projection: { _id: 0, updatedAt: 1 } }
+      ).lean();
+      return { updatedAt: preview.updatedAt };
+    },
+
+    async findPreview(drawingId) {
+      const preview = await DrawingPreview.findOne({ drawingId }, { _id: 0, __v: 0, drawingId: 0 }).lean();
+      if (!preview) return null;
+      // lean() hands back a BSON Binary rather than a Buffer
+      return { ...preview, data: Buffer.isBuffer(preview.data) ? preview.data : Buffer.from(preview.data.buffer) };
+    },
+
+    async listCommentThreads(drawingId) {
+      const threads = await CommentThread.find({ drawingId }, THREAD_PROJECTION).sort({ createdAt: 1 }).lean();
+      return threads.map(threadFromDocument);
+    },
+
+    async findCommentThread(drawingId, threadId) {
+      return threadFromDocument(await CommentThread.findOne({ id: threadId, drawingId }, THREAD_PROJECTION).lean());
+    },
+
+    async insertCommentThread(thread) {
+      if (!(await Drawing.exists({ id: thread.drawingId }))) return null;
+      await CommentThread.create(thread);
+      return thread;
+    },
+
+    async addComment(drawingId, threadId, comment) {
+      const thread = await CommentThread.findOneAndUpdate(
+        { id: threadId, drawingId },
+        { $push: { comments: comment } },
+        { new: true, projection: THREAD_PROJECTION }
+      ).lean();
+      return threadFromDocument(thread);
+    },
+
+    async updateCommentThread(drawingId, threadId, fields) {
+      const thread = await CommentThread.findOneAndUpdate(
+        { id: threadId, drawingId },
+        { $set: fields },
+        { new: true, projection: THREAD_PROJECTION }
+      ).lean();
+      return threadFromDocument(thread);
+    },
+
+    async deleteCommentThread(drawingId, threadId) {
+      const result = await CommentThread.deleteOne({ id: threadId, drawingId });
+      return result.deletedCount > 0;
+    },
+
+    async listDrawingRevisions(drawingId) {
+      const entries = await DrawingRevision.find({ drawingId }, REVISION_METADATA).sort({ createdAt: -1 }).lean();
+      return entries.map(revisionMetadata);
+    },
+
+    async findDrawingRevision(drawingId, id) {
+      const entry = await DrawingRevision.findOne({ id, drawingId }, { _id: 0, __v: 0 }).lean();
+      return entry && { ...revisionMetadata(entry), snapshot: JSON.parse(entry.snapshot) };
+    },
+
+    async insertDrawingRevision(entry) {
+      if (!(await Drawing.exists({ id: entry.drawingId }))) return null;
+      await DrawingRevision.create({ ...entry, name: entry.name ?? undefined, snapshot: JSON.stringify(entry.snapshot) });
+      return revisionMetadata(entry);
+    },
+
+    async lastDrawingRevisionAt(drawingId, kind) {
+      const entry = await DrawingRevision.findOne({ drawingId, kind }, { _id: 0, createdAt: 1 }).sort({ createdAt: -1 }).lean();
+      return entry?.createdAt ?? null;
+    },
+
+    async pruneDrawingRevisions(drawingId, { keep, before }) {
+      const surplus = await DrawingRevision.find({ drawingId, kind: 'auto' }, { _id: 0, id: 1 })
+        .sort({ createdAt: -1 })
+        .skip(keep)
+        .lean();
+      const result = await DrawingRevision.deleteMany({
+        drawingId,
+        kind: 'auto',
+        $or: [{ id: { $in: surplus.map((entry) => entry.id) } }, { createdAt: { $lt: before } }],
+      });
+      return result.deletedCount;
+    },
+
+    async deleteDrawingRevision(drawingId, id) {
+      const result = await DrawingRevision.deleteOne({ id, drawingId });
+      return result.deletedCount > 0;
+    },
+
+    findAsset(id) {
+      return Asset.findOne({ id }, ASSET_METADATA).lean();
+    },
+
+    reuseAsset(drawingId, sha256) {
+      // The empty update still bumps updatedAt
+      return Asset.findOneAndUpdate({ drawingId, sha256 }, {}, { new: true, projection: ASSET_METADATA }).lean();
+    },
+
+    async insertAsset(asset) {
+      try {
+        await Asset.create(asset);
+        return true;
+      } catch (err) {
+        // Same bytes already stored for the drawing (unique { drawingId, sha256 } index)
+        if (err.code === 11000) return false;
+        throw err;
+      }
+    },
+
+    async readAssetData(id) {
+      const asset = await Asset.findOne({ id }, { data: 1 }).lean();
+      if (!asset?.data) return null;
+      // lean() hands back a BSON Binary rather than a Buffer
+      return Buffer.isBuffer(asset.data) ? asset.data : Buffer.from(asset.data.buffer);
+    },
+
+    async writeAssetData(id, data) {
+      await Asset.updateOne({ id }, { $set: { data } });
+    },
+
+    async deleteAssetData(id) {
+      await Asset.updateOne({ id }, { $unset: { data: '' } });
+    },
+
+    async *staleAssets(cutoff) {
+      yield* Asset.find(
+        { updatedAt: { $lt: cutoff } },
+        { _id: 0, id: 1, drawingId: 1, size: 1, storage: 1, updatedAt: 1 }
+      ).lean().cursor();
+    },
+
+    async deleteStaleAsset(id, cutoff) {
+      const result = await Asset.deleteOne({ id, updatedAt: { $lt: cutoff } });
+      return result.deletedCount > 0;
+    },
+
+    async ping() {
+      await mongoose.connection.db.admin().ping();
+    },
+
+    close() {
+      return mongoose.disconnect();
+    },
+  };
+}
@@ -0,0 +1,545 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { applyChangesToSnapshot } from '../diff.js';
+import { assetSources, canSaveAt, changeAssetSources, drawingMetadata, newDrawing } from './common.js';
+
+// SQLite driver (DB_DRIVER=sqlite): one file at SQLITE_PATH, snapshots stored as JSON text.
+// better-sqlite3 is synchronous, so each method runs to completion (or in one transaction)
+// without interleaving with other requests.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS drawings (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    snapshot TEXT,
+    revision INTEGER NOT NULL DEFAULT 0,
+    change_seq INTEGER NOT NULL DEFAULT 0,
+    edit_token TEXT,
+    view_token TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS drawing_changes (
+    drawing_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    client_id TEXT,
+    changes TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER,
+    PRIMARY KEY (drawing_id, seq)
+  );
+  CREATE TABLE IF NOT EXISTS drawing_previews (
+    drawing_id TEXT PRIMARY KEY,
+    data BLOB NOT NULL,
+    mime_type TEXT NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS comment_threads (
+    id TEXT PRIMARY KEY,
+    drawing_id TEXT NOT NULL,
+    anchor TEXT NOT NULL,
+    resolved INTEGER NOT NULL DEFAULT 0,
+    resolved_by TEXT,
+    resolved_at INTEGER,
+    comments TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS comment_threads_drawing ON comment_threads (drawing_id, created_at);
+  CREATE TABLE IF NOT EXISTS drawing_revisions (
+    id TEXT PRIMARY KEY,
+    drawing_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    name TEXT,
+    snapshot TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS drawing_revisions_drawing ON drawing_revisions (drawing_id, kind, created_at);
+  CREATE TABLE IF NOT EXISTS assets (
+    id TEXT PRIMARY KEY,
+    drawing_id TEXT,
+    mime_type TEXT NOT NULL,
+    data BLOB,
+    storage TEXT,
+    sha256 TEXT,
+    size INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS assets_drawing_sha256 ON assets (drawing_id, sha256) WHERE sha256 IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS assets_updated_at ON assets (updated_at);
+`;
+
+const ASSET_COLUMNS = 'id, drawing_id, mime_type, storage, sha256, size, created_at, updated_at';
+const REVISION_COLUMNS = 'id, drawing_id, revision, kind, name, created_at';
+
+function drawingFromRow(row) {
+  if (!row) return null;
+  const drawing = {
+    id: row.id,
+    name: row.name,
+    revision: row.revision,
+    changeSeq: row.change_seq,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  if (row.snapshot !== undefined) drawing.snapshot = row.snapshot === null ? null : JSON.parse(row.snapshot);
+  if (row.edit_token) drawing.editToken = row.edit_token;
+  if (row.view_token) drawing.viewToken = row.view_token;
+  return drawing;
+}
+
+// Anchor, resolver and comments are stored as JSON text
+function threadFromRow(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    drawingId: row.drawing_id,
+    anchor: JSON.parse(row.anchor),
+    resolved: row.resolved === 1,
+    resolvedBy: row.resolved_by ? JSON.parse(row.resolved_by) : null,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    comments: JSON.parse(row.comments).map((comment) => ({ ...comment, createdAt: new Date(comment.createdAt) })),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function threadToRow(thread) {
+  return {
+    id: thread.id,
+    drawingId: thread.drawingId,
+    anchor: JSON.stringify(thread.anchor),
+    resolved: thread.resolved ? 1 : 0,
+    resolvedBy: thread.resolvedBy ? JSON.stringify(thread.resolvedBy) : null,
+    resolvedAt: thread.resolvedAt ? thread.resolvedAt.getTime() : null,
+    comments: JSON.stringify(thread.comments),
+    createdAt: thread.createdAt.getTime(),
+    updatedAt: thread.updatedAt.getTime(),
+  };
+}
+
+function revisionFromRow(row) {
+  if (!row) return null;
+  const entry = {
+    id: row.id,
+    drawingId: row.drawing_id,
+    revision: row.revision,
+    kind: row.kind,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+  };
+  if (row.snapshot !== undefined) entry.snapshot = JSON.parse(row.snapshot);
+  return entry;
+}
+
+function assetFromRow(row) {
+  if (!row) return null;
+  const asset = {
+    id: row.id,
+    drawingId: row.drawing_id ?? undefined,
+    mimeType: row.mime_type,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  if (row.storage !== null) asset.storage = row.storage;
+  if (row.sha256 !== null) asset.sha256 = row.sha256;
+  if (row.size !== null) asset.size = row.size;
+  return asset;
+}
+
+async function openSqlite(file) {
+  let Database;
+  try {
+    // Optional native dependency: only needed when this driver is used
+    ({ default: Database } = await import('better-sqlite3'));
+  } catch (err) {
+    throw new Error(`DB_DRIVER=sqlite needs the better-sqlite3 package (${err.message})`);
+  }
+  mkdirSync(path.dirname(file), { recursive: true });
+  const sqlite = new Database(file);
+  sqlite.pragma('journal_mode = WAL');
+  sqlite.exec(SCHEMA);
+  // Columns added after a database file may have been created
+  const drawingColumns = new Set(sqlite.prepare('PRAGMA table_info(drawings)').all().map((column) => column.name));
+  if (!drawingColumns.has('change_seq')) {
+    sqlite.exec('ALTER TABLE drawings ADD COLUMN change_seq INTEGER NOT NULL DEFAULT 0');
+  }
+  return sqlite;
+}
+
+export async function createSqliteDatabase(file) {
+  const sqlite = await openSqlite(path.resolve(file));
+
+  const statements = {
+    listDrawings: sqlite.prepare('SELECT id, name, created_at, updated_at FROM drawings ORDER BY updated_at DESC'),
+    findDrawing: sqlite.prepare('SELECT * FROM drawings WHERE id = ?'),
+    findDrawingMetadata: sqlite.prepare(
+      'SELECT id, name, revision, change_seq, edit_token, view_token, created_at, updated_at FROM drawings WHERE id = ?'
+    ),
+    insertDrawing: sqlite.prepare(`
+      INSERT INTO drawings (id, name, snapshot, revision, edit_token, view_token, created_at, updated_at)
+      VALUES (@id, @name, @snapshot, @revision, @editToken, @viewToken, @createdAt, @updatedAt)
+    `),
+    renameDrawing: sqlite.prepare('UPDATE drawings SET name = ?, updated_at = ? WHERE id = ?'),
+    deleteDrawing: sqlite.prepare('DELETE FROM drawings WHERE id = ?'),
+    deleteDrawingChanges: sqlite.prepare('DELETE FROM drawing_changes WHERE drawing_id = ?'),
+    nextChangeSeq: sqlite.prepare(
+      'UPDATE drawings SET change_seq = change_seq + 1 WHERE id = ? RETURNING change_seq'
+    ),
+    insertChange: sqlite.prepare(`
+      INSERT INTO drawing_changes (drawing_id, seq, client_id, changes, created_at, expires_at)
+      VALUES (@drawingId, @seq, @clientId, @changes, @createdAt, @expiresAt)
+    `),
+    pruneChanges: sqlite.prepare('DELETE FROM drawing_changes WHERE expires_at < ?'),
+    listChanges: sqlite.prepare(
+      'SELECT seq, client_id, changes, created_at FROM drawing_changes WHERE drawing_id = ? AND seq > ? ORDER BY seq LIMIT ?'
+    ),
+    upsertPreview: sqlite.prepare(`
+      INSERT INTO drawing_previews (drawing_id, data, mime_type, width, height, updated_at)
+      SELECT @drawingId, @data, @mimeType, @width, @height, @updatedAt WHERE EXISTS (SELECT 1 FROM drawings WHERE id = @drawingId)
+      ON CONFLICT (drawing_id) DO UPDATE SET
+        data = excluded.data, mime_type = excluded.mime_type, width = excluded.width,
+        height = excluded.height, updated_at = excluded.updated_at
+    `),
+    findPreview: sqlite.prepare('SELECT data, mime_type, width, height, updated_at FROM drawing_previews WHERE drawing_id = ?'),
+    deleteDrawingPreview: sqlite.prepare('DELETE FROM drawing_previews WHERE drawing_id = ?'),
+    listCommentThreads: sqlite.prepare('SELECT * FROM comment_threads WHERE drawing_id = ? ORDER BY created_at, rowid'),
+    findCommentThread: sqlite.prepare('SELECT * FROM comment_threads WHERE id = ? AND drawing_id = ?'),
+    insertCommentThread: sqlite.prepare(`
+      INSERT INTO comment_threads (id, drawing_id, anchor, resolved, resolved_by, resolved_at, comments, created_at, updated_at)
+      SELECT @id, @drawingId, @anchor, @resolved, @resolvedBy, @resolvedAt, @comments, @createdAt, @updatedAt
+      WHERE EXISTS (SELECT 1 FROM drawings WHERE id = @drawingId)
+    `),
+    updateCommentThread: sqlite.prepare(`
+      UPDATE comment_threads SET anchor = @anchor, resolved = @resolved, resolved_by = @resolvedBy,
+        resolved_at = @resolvedAt, comments = @comments, updated_at = @updatedAt
+      WHERE id = @id
+    `),
+    deleteCommentThread: sqlite.prepare('DELETE FROM comment_threads WHERE id = ? AND drawing_id = ?'),
+    deleteDrawingCommentThreads: sqlite.prepare('DELETE FROM comment_threads WHERE drawing_id = ?'),
+    listRevisions: sqlite.prepare(
+      `SELECT ${REVISION_COLUMNS} FROM drawing_revisions WHERE drawing_id = ? ORDER BY created_at DESC, rowid DESC`
+    ),
+    findRevision: sqlite.prepare('SELECT * FROM drawing_revisions WHERE id = ? AND drawing_id = ?'),
+    insertRevision: sqlite.prepare(`
+      INSERT INTO drawing_revisions (id, drawing_id, revision, kind, name, snapshot, created_at)
+      SELECT @id, @drawingId, @revision, @kind, @name, @snapshot, @createdAt
+      WHERE EXISTS (SELECT 1 FROM drawings WHERE id = @drawingId)
+    `),
+    lastRevisionAt: sqlite.prepare('SELECT MAX(created_at) AS created_at FROM drawing_revisions WHERE drawing_id = ? AND kind = ?'),
+    pruneRevisions: sqlite.prepare(`
+      DELETE FROM drawing_revisions WHERE drawing_id = @drawingId AND kind = 'auto' AND (created_at < @before OR id IN (
+        SELECT id FROM drawing_revisions WHERE drawing_id = @drawingId AND kind = 'auto'
+        ORDER BY created_at DESC, rowid DESC LIMIT -1 OFFSET @keep
+      ))
+    `),
+    deleteRevision: sqlite.prepare('DELETE FROM drawing_revisions WHERE id = ? AND drawing_id = ?'),
+    deleteDrawingRevisions: sqlite.prepare('DELETE FROM drawing_revisions WHERE drawing_id = ?'),
+    setShareTokens: sqlite.prepare(
+      'UPDATE drawings SET edit_token = ?, view_token = ? WHERE id = ? AND edit_token IS NULL'
+    ),
+    updateSnapshot: sqlite.prepare(
+      'UPDATE drawings SET snapshot = ?, revision = revision + 1, updated_at = ? WHERE id = ? RETURNING revision'
+    ),
+    replaceSnapshot: sqlite.prepare('UPDATE drawings SET snapshot = ? WHERE id = ? AND revision = ?'),
+    drawingIds: sqlite.prepare('SELECT id FROM drawings'),
+    drawingSnapshot: sqlite.prepare('SELECT id, revision, snapshot FROM drawings WHERE id = ?'),
+    revisionIds: sqlite.prepare('SELECT id FROM drawing_revisions'),
+    revisionSnapshot: sqlite.prepare('SELECT snapshot FROM drawing_revisions WHERE id = ?'),
+    changeRowIds: sqlite.prepare('SELECT rowid FROM drawing_changes'),
+    changeData: sqlite.prepare('SELECT changes FROM drawing_changes WHERE rowid = ?'),
+    findAsset: sqlite.prepare(`SELECT ${ASSET_COLUMNS} FROM assets WHERE id = ?`),
+    touchAssetByHash: sqlite.prepare(
+      `UPDATE assets SET updated_at = ? WHERE drawing_id IS ? AND sha256 = ? RETURNING ${ASSET_COLUMNS}`
+    ),
+    insertAsset: sqlite.prepare(`
+      INSERT INTO assets (id, drawing_id, mime_type, data, storage, sha256, size, created_at, updated_at)
+      VALUES (@id, @drawingId, @mimeType, @data, @storage, @sha256, @size, @now, @now)
+      ON CONFLICT DO NOTHING
+    `),
+    readAssetData: sqlite.prepare('SELECT data FROM assets WHERE id = ?'),
+    writeAssetData: sqlite.prepare('UPDATE assets SET data = ? WHERE id = ?'),
+    staleAssets: sqlite.prepare(`SELECT ${ASSET_COLUMNS} FROM assets WHERE updated_at < ?`),
+    deleteStaleAsset: sqlite.prepare('DELETE FROM assets WHERE id = ? AND updated_at < ?'),
+    ping: sqlite.prepare('SELECT 1'),
+  };
+
+  const insertDrawing = (drawing, snapshot = null) =>
+    statements.insertDrawing.run({
+      ...drawing,
+      snapshot,
+      createdAt: drawing.createdAt.getTime(),
+      updatedAt: drawing.updatedAt.getTime(),
+    });
+
+  const saveSnapshot = sqlite.transaction((id, json, baseRevision) => {
+    const row = statements.findDrawingMetadata.get(id);
+    if (!canSaveAt(row?.revision, baseRevision)) {
+      return { ok: false, revision: row?.revision ?? 0 };
+    }
+    if (!row) {
+      const drawing = { ...newDrawing(id), revision: 1 };
+      insertDrawing(drawing, json);
+      return { ok: true, revision: 1, editToken: drawing.editToken, viewToken: drawing.viewToken };
+    }
+    const { revision } = statements.updateSnapshot.get(json, Date.now(), id);
+    return { ok: true, revision, editToken: row.edit_token ?? undefined, viewToken: row.view_token ?? undefined };
+  });
+
+  const applyChanges = sqlite.transaction((id, changes) => {
+    const row = statements.drawingSnapshot.get(id);
+    const snapshot = row?.snapshot ? JSON.parse(row.snapshot) : null;
+    if (!snapshot?.store) return { ok: false };
+    const next = applyChangesToSnapshot(snapshot, changes);
+    const { revision } = statements.updateSnapshot.get(JSON.stringify(next), Date.now(), id);
+    return { ok: true, revision };
+  });
+
+  const deleteDrawing = sqlite.transaction((id) => {
+    statements.deleteDrawingChanges.run(id);
+    statements.deleteDrawingPreview.run(id);
+    statements.deleteDrawingCommentThreads.run(id);
+    statements.deleteDrawingRevisions.run(id);
+    return statements.deleteDrawing.run(id).changes > 0;
+  });
+
+  // Read, change and write back one thread
+  const changeCommentThread = sqlite.transaction((drawingId, threadId, change) => {
+    const thread = threadFromRow(statements.findCommentThread.get(threadId, drawingId));
+    if (!thread) return null;
+    const next = { ...change(thread), updatedAt: new Date() };
+    statements.updateCommentThread.run(threadToRow(next));
+    return next;
+  });
+
+  const appendChange = sqlite.transaction((drawingId, { changes, clientId, expiresAt }) => {
+    const row = statements.nextChangeSeq.get(drawingId);
+    if (!row) return null;
+    const now = Date.now();
+    statements.pruneChanges.run(now);
+    statements.insertChange.run({
+      drawingId,
+      seq: row.change_seq,
+      clientId: clientId ?? null,
+      changes: JSON.stringify(changes),
+      createdAt: now,
+      expiresAt: expiresAt ? expiresAt.getTime() : null,
+    });
+    return row.change_seq;
+  });
+
+  return {
+    driver: 'sqlite',
+
+    async listDrawings() {
+      return statements.listDrawings.all().map((row) => drawingMetadata(drawingFromRow(row)));
+    },
+
+    async createDrawing({ id, name }) {
+      const drawing = newDrawing(id, name);
+      insertDrawing(drawing);
+      return { ...drawingMetadata(drawing), editToken: drawing.editToken, viewToken: drawing.viewToken };
+    },
+
+    async findDrawing(id, { snapshot = true } = {}) {
+      return drawingFromRow((snapshot ? statements.findDrawing : statements.findDrawingMetadata).get(id));
+    },
+
+    async renameDrawing(id, name) {
+      const result = statements.renameDrawing.run(name, Date.now(), id);
+      if (result.changes === 0) return null;
+      return drawingMetadata(drawingFromRow(statements.findDrawingMetadata.get(id)));
+    },
+
+    async deleteDrawing(id) {
+      return deleteDrawing(id);
+    },
+
+    async ensureShareTokens(id, tokens) {
+      statements.setShareTokens.run(tokens.editToken, tokens.viewToken, id);
+      const drawing = drawingFromRow(statements.findDrawingMetadata.get(id));
+      return drawing && { id, editToken: drawing.editToken, viewToken: drawing.viewToken };
+    },
+
+    async saveSnapshot(id, snapshot, baseRevision) {
+      return saveSnapshot(id, JSON.stringify(snapshot), baseRevision);
+    },
+
+    async applyChanges(id, changes) {
+      return applyChanges(id, changes);
+    },
+
+    async replaceSnapshot(id, revision, snapshot) {
+      return statements.replaceSnapshot.run(JSON.stringify(snapshot), id, revision).changes > 0;
+    },
+
+    // One row at a time: the connection can't run other statements while an iterator is open,
+    // and callers may write between rows
+    async *drawingSnapshots() {
+      for (const { id } of statements.drawingIds.all()) {
+        const drawing = drawingFromRow(statements.drawingSnapshot.get(id));
+        if (drawing) yield { id, revision: drawing.revision, snapshot: drawing.snapshot };
+      }
+    },
+
+    async *assetSources() {
+      for await (const { snapshot } of this.drawingSnapshots()) yield* assetSources(snapshot);
+      for (const { id } of statements.revisionIds.all()) {
+        const row = statements.revisionSnapshot.get(id);
+        if (row) yield* assetSources(JSON.parse(row.snapshot));
+      }
+      for (const { rowid } of statements.changeRowIds.all()) {
+        const row = statements.changeData.get(rowid);
+        if (row) yield* changeAssetSources(JSON.parse(row.changes));
+      }
+    },
+
+    async appendChange(drawingId, change) {
+      return appendChange(drawingId, change);
+    },
+
+    async listChanges(drawingId, { after = 0, limit }) {
+      return statements.listChanges.all(drawingId, after, limit ?? -1).map((row) => ({
+        seq: row.seq,
+        clientId: row.client_id,
+        changes: JSON.parse(row.changes),
+        createdAt: new Date(row.created_at),
+      }));
+    },
+
+    async savePreview(drawingId, { data, mimeType, width, height }) {
+      const updatedAt = Date.now();
+      const result = statements.upsertPreview.run({
+        drawingId,
+        data,
+        mimeType,
+        width: width ?? null,
+        height: height ?? null,
+        updatedAt,
+      });
+      return result.changes > 0 ? { updatedAt: new Date(updatedAt) } : null;
+    },
+
+    async findPreview(drawingId) {
+      const row = statements.findPreview.get(drawingId);
+      if (!row) return null;
+      return {
+        data: row.data,
+        mimeType: row.mime_type,
+        width: row.width ?? undefined,
+        height: row.height ?? undefined,
+        updatedAt: new Date(row.updated_at),
+      };
+    },
+
+    async listCommentThreads(drawingId) {
+      return statements.listCommentThreads.all(drawingId).map(threadFromRow);
+    },
+
+    async findCommentThread(drawingId, threadId) {
+      return threadFromRow(statements.findCommentThread.get(threadId, drawingId));
+    },
+
+    async insertCommentThread(thread) {
+      return statements.insertCommentThread.run(threadToRow(thread)).changes > 0 ? thread : null;
+    },
+
+    async addComment(drawingId, threadId, comment) {
+      return changeCommentThread(drawingId, threadId, (thread) => ({ ...thread, comments: [...thread.comments, comment] }));
+    },
+
+    async updateCommentThread(drawingId, threadId, fields) {
+      return changeCommentThread(drawingId, threadId, (thread) => ({ ...thread, ...fields }));
+    },
+
+    async deleteCommentThread(drawingId, threadId) {
+      return statements.deleteCommentThread.run(threadId, drawingId).changes > 0;
+    },
+
+    async listDrawingRevisions(drawingId) {
+      return statements.listRevisions.all(drawingId).map(revisionFromRow);
+    },
+
+    async findDrawingRevision(drawingId, id) {
+      return revisionFromRow(statements.findRevision.get(id, drawingId));
+    },
+
+    async insertDrawingRevision({ snapshot, ...entry }) {
+      const result = statements.insertRevision.run({
+        ...entry,
+        name: entry.name ?? null,
+        snapshot: JSON.stringify(snapshot),
+        createdAt: entry.createdAt.getTime(),
+      });
+      return result.changes > 0 ? { ...entry, name: entry.name ?? null } : null;
+    },
+
+    async lastDrawingRevisionAt(drawingId, kind) {
+      const { created_at: createdAt } = statements.lastRevisionAt.get(drawingId, kind);
+      return createdAt === null ? null : new Date(createdAt);
+    },
+
+    async pruneDrawingRevisions(drawingId, { keep, before }) {
+      return statements.pruneRevisions.run({ drawingId, keep, before: before.getTime() }).changes;
+    },
+
+    async deleteDrawingRevision(drawingId, id) {
+      return statements.deleteRevision.run(id, drawingId).changes > 0;
+    },
+
+    async findAsset(id) {
+      return assetFromRow(statements.findAsset.get(id));
+    },
+
+    async reuseAsset(drawingId, sha256) {
+      return assetFromRow(statements.touchAssetByHash.get(Date.now(), drawingId ?? null, sha256));
+    },
+
+    async insertAsset(asset) {
+      const result = statements.insertAsset.run({
+        id: asset.id,
+        drawingId: asset.drawingId ?? null,
+        mimeType: asset.mimeType,
+        data: asset.data ?? null,
+        storage: asset.storage ?? null,
+        sha256: asset.sha256 ?? null,
+        size: asset.size ?? null,
+        now: Date.now(),
+      });
+      // Nothing inserted: the same bytes are already stored for the drawing
+      return result.changes > 0;
+    },
+
+    async readAssetData(id) {
+      return statements.readAssetData.get(id)?.data ?? null;
+    },
+
+    async writeAssetData(id, data) {
+      statements.writeAssetData.run(data, id);
+    },
+
+    async deleteAssetData(id) {
+      statements.writeAssetData.run(null, id);
+    },
+
+    async *staleAssets(cutoff) {
+      for (const row of statements.staleAssets.all(cutoff.getTime())) yield assetFromRow(row);
+    },
+
+    async deleteStaleAsset(id, cutoff) {
+      return statements.deleteStaleAsset.run(id, cutoff.getTime()).changes > 0;
+    },
+
+    async ping() {
+      statements.ping.get();
+    },
+
+    async close() {
+      sqlite.close();
+    },
+  };
+}
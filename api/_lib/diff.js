@@ -0,0 +1,41 @@
+// Apply a tldraw record diff ({ added, updated: { id: [old, new] }, removed }) to a stored
+// snapshot ({ store, schema }) and return the new snapshot. The input is not mutated.
+export function applyChangesToSnapshot(snapshot, changes) {
+  const store = { ...(snapshot?.store ?? {}) };
+
+  for (const id of Object.keys(changes?.removed ?? {})) {
+    delete store[id];
+  }
+  for (const [id, record] of Object.entries(changes?.added ?? {})) {
+    store[id] = record;
+  }
+  for (const [id, pair] of Object.entries(changes?.updated ?? {})) {
+    store[id] = Array.isArray(pair) ? pair[1] : pair;
+  }
+
+  return { ...snapshot, store };
+}
+
+export function isEmptyChanges(changes) {
+  return (
+    !changes ||
+    (Object.keys(changes.added ?? {}).length === 0 &&
+      Object.keys(changes.updated ?? {}).length === 0 &&
+      Object.keys(changes.removed ?? {}).length === 0)
+  );
+}
+
+// The diff that turns one snapshot's records into another's
+export function diffSnapshots(before, after) {
+  const from = before?.store ?? {};
+  const to = after?.store ?? {};
+  const changes = { added: {}, updated: {}, removed: {} };
+  for (const [id, record] of Object.entries(to)) {
+    if (!(id in from)) changes.added[id] = record;
+    else if (JSON.stringify(from[id]) !== JSON.stringify(record)) changes.updated[id] = [from[id], record];
+  }
+  for (const [id, record] of Object.entries(from)) {
+    if (!(id in to)) changes.removed[id] = record;
+  }
+  return changes;
+}
@@ -0,0 +1,83 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import { readAssetUpload, resolveAssetType, sendAsset, storeAsset } from '../assets.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+import { increment, observe } from '../metrics.js';
+import { checkRateLimit } from '../rateLimit.js';
+
+const log = createLogger('assets');
+
+// The asset id of a GET: `?id=xxx`, or the path of /api/asset/xxx (Vercel passes the catch-all
+// segments as `slug`)
+function requestedAssetId(req) {
+  const { id, slug } = req.query;
+  if (id) return id;
+  if (slug) return Array.isArray(slug) ? slug[0] : slug;
+  return req.url?.match(/\/api\/asset\/([^/?#]+)/)?.[1];
+}
+
+// POST /api/asset?drawingId=xxx = upload (raw body, multipart or legacy base64 JSON),
+// GET/HEAD /api/asset?id=xxx or /api/asset/xxx = serve (with Range support)
+async function handler(req, res) {
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    const id = requestedAssetId(req);
+    if (!id) {
+      return res.status(400).json({ error: 'Missing id' });
+    }
+    try {
+      const db = await connectToDatabase();
+      const asset = await db.findAsset(id);
+      if (!asset) {
+        return res.status(404).json({ error: 'Asset not found' });
+      }
+      if (asset.drawingId) {
+        const auth = await authorizeDrawing(db, asset.drawingId, readToken(req), 'view');
+        if (!auth.ok) {
+          return res.status(auth.status).json({ error: auth.error });
+        }
+      }
+      return await sendAsset(req, res, db, asset);
+    } catch (err) {
+      log.error('Asset request failed', { assetId: id, err });
+      return res.status(500).json({ error: err.message });
+    }
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'HEAD', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Raw and multipart uploads carry the drawing id in the query string
+  const drawingId = req.query.drawingId || req.body?.drawingId;
+  if (!drawingId) {
+    return res.status(400).json({ error: 'Drawing id is required' });
+  }
+
+  const limited = checkRateLimit(req, res, 'upload', drawingId);
+  if (limited) {
+    return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, drawingId, readToken(req), 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+
+    const upload = await readAssetUpload(req);
+    observe('asset_upload_bytes', upload.data.length);
+    const mimeType = resolveAssetType(upload);
+    const asset = await storeAsset(db, { drawingId, data: upload.data, mimeType });
+    increment('asset_uploads_total', { deduplicated: asset.deduplicated });
+    log.info(asset.deduplicated ? 'Reused asset' : 'Stored asset', { assetId: asset.id, drawingId, size: asset.size });
+    res.status(200).json(asset);
+  } catch (err) {
+    if (!err.status) log.error('Asset upload failed', { drawingId, err });
+    res.status(err.status || 500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/asset', handler);
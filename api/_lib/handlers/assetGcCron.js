@@ -0,0 +1,38 @@
+import { connectToDatabase } from '../db.js';
+import { ASSET_GC_GRACE_HOURS, sweepOrphanedAssets } from '../assetGc.js';
+import { authorizeCron } from '../cron.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('asset-gc');
+
+// GET /api/cron/asset-gc[?dryRun=1&graceHours=N] – orphaned asset sweep, run daily by Vercel Cron
+async function handler(req, res) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const denied = authorizeCron(req);
+  if (denied) {
+    return res.status(denied.status).json({ error: denied.error });
+  }
+
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+  const graceHours = req.query.graceHours !== undefined ? Number(req.query.graceHours) : ASSET_GC_GRACE_HOURS;
+  if (!Number.isFinite(graceHours) || graceHours < 0) {
+    return res.status(400).json({ error: 'graceHours must be a non-negative number' });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const result = await sweepOrphanedAssets(db, { dryRun, graceHours });
+    log.info('Swept orphaned assets', { orphaned: result.orphaned.length, deleted: result.deleted, dryRun });
+    res.status(200).json(result);
+  } catch (err) {
+    log.error('Asset sweep failed', { err });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/cron/asset-gc', handler);
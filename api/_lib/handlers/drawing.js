@@ -0,0 +1,181 @@
+import { connectToDatabase } from '../db.js';
+import { ACCESS_HEADER, TOKEN_HEADER, accessError, readToken, resolveAccess } from '../access.js';
+import { REVISION_HEADER, parseRevision } from '../revisions.js';
+import { recordAutoCheckpoint } from '../checkpoints.js';
+import { diffSnapshots } from '../diff.js';
+import { hasSnapshot, recallSnapshot, rememberSnapshot } from '../snapshotCache.js';
+import { upgradeStoredDrawing, validateChanges, validateSnapshot } from '../snapshots.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+import { increment, observe, timed } from '../metrics.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { validateDrawingId } from '../validation.js';
+
+const log = createLogger('drawing');
+
+// Changes with every save; the creation time keeps a recreated drawing's revisions apart
+function drawingEtag(drawing) {
+  const createdAt = drawing.createdAt ? new Date(drawing.createdAt).getTime().toString(36) : '0';
+  return `"${createdAt}-${(drawing.revision ?? 0).toString(36)}"`;
+}
+
+// If-None-Match wins; If-Modified-Since is only checked without it (to the second, as HTTP dates go)
+function isNotModified(req, drawing, etag) {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) return ifNoneMatch === etag;
+  const since = Date.parse(req.headers['if-modified-since']);
+  if (!drawing.updatedAt || Number.isNaN(since)) return false;
+  return Math.floor(new Date(drawing.updatedAt).getTime() / 1000) * 1000 <= since;
+}
+
+// GET /api/drawing?id= = load the snapshot, POST = save a full snapshot, PATCH = apply a diff.
+// GET answers with an ETag and Last-Modified, and 304 to a matching If-None-Match or
+// If-Modified-Since. With `since=<revision>` the body is { revision, changes } holding only the
+// records changed since that revision, or { revision, snapshot } when the server no longer has
+// that revision to compare against (see snapshotCache.js); 304 if the drawing is still at it.
+async function handler(req, res) {
+  try {
+    const db = await connectToDatabase();
+
+    const { method } = req;
+    const { id: queryId } = req.query;
+    const { id: bodyId, snapshot, revision, changes } = req.body || {};
+
+    const id = queryId || bodyId;
+    if (!id) {
+      return res.status(400).json({ error: 'Drawing id is required' });
+    }
+
+    if (method === 'POST' || method === 'PATCH') {
+      validateDrawingId(id);
+      const limited = checkRateLimit(req, res, 'save', id);
+      if (limited) {
+        return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+      }
+    }
+
+    // Share-token check: reads need a view or edit token, writes an edit token
+    const token = readToken(req);
+    // Writes only need the tokens, not the whole snapshot
+    const stored = await db.findDrawing(id, { snapshot: method === 'GET' });
+    const access = resolveAccess(stored, token);
+    const denied = accessError(access, method === 'GET' ? 'view' : 'edit');
+    if (denied) {
+      return res.status(denied.status).json({ error: denied.error });
+    }
+
+    switch (method) {
+      case 'GET':
+        try {
+          // Snapshots saved by an older tldraw are migrated (and written back) on read
+          const drawing = await upgradeStoredDrawing(db, stored);
+          res.setHeader(ACCESS_HEADER, access);
+          res.setHeader(REVISION_HEADER, String(drawing?.revision ?? 0));
+          if (!drawing) {
+            return res.status(200).json(null);
+          }
+
+          const currentRevision = drawing.revision ?? 0;
+          const etag = drawingEtag(drawing);
+          // The access header depends on the token, so caches revalidate per token
+          res.setHeader('Cache-Control', 'private, no-cache');
+          res.setHeader('Vary', TOKEN_HEADER);
+          res.setHeader('ETag', etag);
+          if (drawing.updatedAt) res.setHeader('Last-Modified', new Date(drawing.updatedAt).toUTCString());
+          const since = parseRevision(req.query.since);
+          if (isNotModified(req, drawing, etag) || since === currentRevision) {
+            return res.status(304).end();
+          }
+
+          const base = since !== undefined && drawing.snapshot ? recallSnapshot(drawing, since) : null;
+          if (base) {
+            if (!hasSnapshot(drawing, currentRevision)) {
+              rememberSnapshot(drawing, currentRevision, JSON.stringify(drawing.snapshot));
+            }
+            return res.status(200).json({ revision: currentRevision, changes: diffSnapshots(base, drawing.snapshot) });
+          }
+
+          const json = JSON.stringify(drawing.snapshot ?? null);
+          if (drawing.snapshot) rememberSnapshot(drawing, currentRevision, json);
+          res.setHeader('Content-Type', 'application/json; charset=utf-8');
+          res.status(200).send(since === undefined ? json : `{"revision":${currentRevision},"snapshot":${json}}`);
+        } catch (err) {
+          res.status(err.status || 500).json({ error: `GET Error: ${err.message}` });
+        }
+        break;
+
+      case 'POST':
+        try {
+          if (!snapshot) {
+            log.warn('Missing snapshot in request body', { drawingId: id });
+            return res.status(400).json({ error: 'Snapshot is required' });
+          }
+
+          const baseRevision = parseRevision(revision);
+          const valid = validateSnapshot(snapshot);
+          const json = JSON.stringify(valid);
+          observe('drawing_snapshot_bytes', Buffer.byteLength(json));
+          const result = await timed('drawing_save_duration_ms', { kind: 'snapshot' }, () =>
+            db.saveSnapshot(id, valid, baseRevision)
+          );
+          if (!result.ok) {
+            increment('drawing_save_conflicts_total');
+            log.warn('Stale write rejected', { drawingId: id, baseRevision, revision: result.revision });
+            return res.status(409).json({ error: 'Drawing was modified by someone else', revision: result.revision });
+          }
+
+          log.info('Saved snapshot', { drawingId: id, revision: result.revision });
+          // The saving client polls with since=<this revision> next
+          if (stored) rememberSnapshot(stored, result.revision, json);
+          await recordAutoCheckpoint(db, id);
+          // First save of a brand-new drawing: hand its creator the share tokens
+          const tokens = token ? {} : { editToken: result.editToken, viewToken: result.viewToken };
+          res.status(200).json({ success: true, id, revision: result.revision, ...tokens });
+        } catch (err) {
+          if (err.status) {
+            log.warn('Rejected snapshot', { drawingId: id, err });
+            return res.status(err.status).json({ error: err.message });
+          }
+          log.error('Snapshot save failed', { drawingId: id, err });
+          res.status(500).json({ error: `Persistence Error: ${err.message}` });
+        }
+        break;
+
+      case 'PATCH':
+        // Incremental save: apply a record diff instead of replacing the whole snapshot
+        try {
+          if (!changes) {
+            return res.status(400).json({ error: 'Changes are required' });
+          }
+          validateChanges(changes);
+          const result = await timed('drawing_save_duration_ms', { kind: 'changes' }, () => db.applyChanges(id, changes));
+          if (!result.ok) {
+            return res.status(404).json({ error: 'Drawing has no snapshot yet' });
+          }
+          log.info('Applied diff', { drawingId: id, revision: result.revision });
+          await recordAutoCheckpoint(db, id);
+          res.status(200).json({ success: true, id, revision: result.revision });
+        } catch (err) {
+          if (!err.status) log.error('Diff save failed', { drawingId: id, err });
+          res.status(err.status || 500).json({ error: `Diff Error: ${err.message}` });
+        }
+        break;
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PATCH']);
+        res.status(405).end(`Method ${method} Not Allowed`);
+    }
+  } catch (err) {
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    log.error('Unhandled error', { err });
+    res.status(500).json({
+      error: 'Unhandled Internal Server Error',
+      details: err.message,
+      stack: process.env.NODE_ENV === 'development' ? err.stack : undefined
+    });
+  }
+}
+
+export default instrument('/api/drawing', handler);
@@ -0,0 +1,64 @@
+import { connectToDatabase } from '../db.js';
+import { accessError, readToken, resolveAccess } from '../access.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('changes');
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+function readCount(value, fallback) {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : undefined;
+}
+
+// GET /api/drawing/:id/changes?after=<seq>[&limit=N] – logged diffs after `seq`, oldest first
+// (see broadcast.js). Returns { seq, entries: [{ seq, clientId, changes, createdAt }], hasMore }
+// where `seq` is the drawing's latest change seq and `clientId` the sender's Pusher socket id
+// (null for changes made by the server). Entries may already have expired from the log, so
+// callers check that the first one follows `after`. Clients use it to catch up on missed diffs,
+// and page through all of it for playback.
+async function handler(req, res) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+  const after = readCount(req.query.after, 0);
+  const limit = readCount(req.query.limit, DEFAULT_LIMIT);
+  if (after === undefined || !limit) {
+    return res.status(400).json({ error: 'after and limit must be non-negative integers' });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const drawing = await db.findDrawing(id, { snapshot: false });
+    const denied = accessError(resolveAccess(drawing, readToken(req)), 'view');
+    if (denied) {
+      return res.status(denied.status).json({ error: denied.error });
+    }
+    if (!drawing) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+
+    const pageSize = Math.min(limit, MAX_LIMIT);
+    // One extra entry tells us whether there is another page
+    const entries = await db.listChanges(id, { after, limit: pageSize + 1 });
+    res.status(200).json({
+      seq: drawing.changeSeq ?? 0,
+      entries: entries.slice(0, pageSize),
+      hasMore: entries.length > pageSize,
+    });
+  } catch (err) {
+    log.error('Change log request failed', { drawingId: id, err });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawing/:id/changes', handler);
@@ -0,0 +1,108 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import {
+  assertCanReply,
+  newComment,
+  newCommentThread,
+  publishCommentThread,
+  publishCommentThreadDeleted,
+  readThreadUpdate,
+} from '../comments.js';
+import { pusher, pusherConfigured } from '../pusher.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { validateSocketId } from '../validation.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('comments');
+
+// The thread is stored either way; clients that miss the event see it on their next load
+async function publish(drawingId, send) {
+  if (!pusherConfigured) return;
+  try {
+    await send();
+  } catch (err) {
+    log.warn('Could not publish comment change', { drawingId, err });
+  }
+}
+
+// GET    /api/drawing/:id/comments            = list the threads (view token)
+// POST   /api/drawing/:id/comments            = start a thread { anchor, body, author } (edit token)
+// POST   /api/drawing/:id/comments/:threadId  = reply { body, author }
+// PATCH  /api/drawing/:id/comments/:threadId  = resolve/reopen { resolved, author } or move { anchor }
+// DELETE /api/drawing/:id/comments/:threadId  = delete the thread
+// Writes take the sender's Pusher `socketId`, which doesn't get the event back.
+async function handler(req, res) {
+  const { id, threadId } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+
+  const allowed = threadId ? ['POST', 'PATCH', 'DELETE'] : ['GET', 'POST'];
+  if (!allowed.includes(req.method)) {
+    res.setHeader('Allow', allowed);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const isRead = req.method === 'GET';
+  if (!isRead) {
+    const limited = checkRateLimit(req, res, 'save', id);
+    if (limited) {
+      return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+    }
+  }
+
+  try {
+    const socketId = validateSocketId(req.body?.socketId);
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, id, readToken(req), isRead ? 'view' : 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    if (!auth.exists) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+
+    if (!threadId) {
+      if (isRead) {
+        return res.status(200).json({ threads: await db.listCommentThreads(id) });
+      }
+      const thread = await db.insertCommentThread(newCommentThread(id, req.body));
+      if (!thread) {
+        return res.status(404).json({ error: 'Drawing not found' });
+      }
+      log.info('Started comment thread', { drawingId: id, threadId: thread.id });
+      await publish(id, () => publishCommentThread(pusher, id, thread, socketId));
+      return res.status(201).json(thread);
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await db.deleteCommentThread(id, threadId))) {
+        return res.status(404).json({ error: 'Thread not found' });
+      }
+      log.info('Deleted comment thread', { drawingId: id, threadId });
+      await publish(id, () => publishCommentThreadDeleted(pusher, id, threadId, socketId));
+      return res.status(200).json({ success: true });
+    }
+
+    let thread;
+    if (req.method === 'POST') {
+      const comment = newComment(req.body);
+      const current = await db.findCommentThread(id, threadId);
+      if (current) assertCanReply(current);
+      thread = current && (await db.addComment(id, threadId, comment));
+    } else {
+      thread = await db.updateCommentThread(id, threadId, readThreadUpdate(req.body));
+    }
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+    await publish(id, () => publishCommentThread(pusher, id, thread, socketId));
+    res.status(req.method === 'POST' ? 201 : 200).json(thread);
+  } catch (err) {
+    if (!err.status) log.error('Comment request failed', { drawingId: id, threadId, err });
+    res.status(err.status || 500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawing/:id/comments', handler);
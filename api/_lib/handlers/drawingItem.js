@@ -0,0 +1,60 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import { instrument } from '../instrument.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('drawings');
+
+// PATCH /api/drawings/:id = rename, DELETE /api/drawings/:id = delete
+async function handler(req, res) {
+  const { id } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+
+  const limited = checkRateLimit(req, res, 'save', id);
+  if (limited) {
+    return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+  }
+
+  try {
+    const db = await connectToDatabase();
+
+    const auth = await authorizeDrawing(db, id, readToken(req), 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+
+    switch (req.method) {
+      case 'PATCH': {
+        const name = req.body?.name?.trim();
+        if (!name) {
+          return res.status(400).json({ error: 'Name is required' });
+        }
+        const drawing = await db.renameDrawing(id, name);
+        if (!drawing) {
+          return res.status(404).json({ error: 'Drawing not found' });
+        }
+        return res.status(200).json(drawing);
+      }
+
+      case 'DELETE': {
+        if (!(await db.deleteDrawing(id))) {
+          return res.status(404).json({ error: 'Drawing not found' });
+        }
+        log.info('Deleted drawing', { drawingId: id });
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        res.setHeader('Allow', ['PATCH', 'DELETE']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (err) {
+    log.error('Drawing request failed', { drawingId: id, err });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawings/:id', handler);
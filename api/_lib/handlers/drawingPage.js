@@ -0,0 +1,57 @@
+import { connectToDatabase } from '../db.js';
+import { accessError, readToken, resolveAccess } from '../access.js';
+import { injectHead, loadIndexHtml, openGraphTags, publicOrigin } from '../openGraph.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('page');
+
+// GET /d/:id – the app's index.html with Open Graph tags for the drawing. The tags (name and
+// thumbnail) are only added for a valid share token; otherwise the page is served as built and
+// the board shows its usual error.
+async function handler(req, res) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', ['GET', 'HEAD']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  try {
+    let html = await loadIndexHtml();
+
+    if (id) {
+      try {
+        const db = await connectToDatabase();
+        const drawing = await db.findDrawing(id, { snapshot: false });
+        const token = readToken(req);
+        if (drawing && !accessError(resolveAccess(drawing, token), 'view')) {
+          const origin = publicOrigin(req);
+          const tokenQuery = token ? `token=${encodeURIComponent(token)}` : '';
+          const preview = await db.findPreview(id);
+          const image = preview && {
+            // Versioned so unfurlers that cache images by URL pick up new thumbnails
+            url: `${origin}/api/drawing/${encodeURIComponent(id)}/preview.png?${tokenQuery && `${tokenQuery}&`}v=${preview.updatedAt.getTime()}`,
+            type: preview.mimeType,
+            width: preview.width,
+            height: preview.height,
+          };
+          const url = `${origin}/d/${encodeURIComponent(id)}${tokenQuery && `?${tokenQuery}`}`;
+          html = injectHead(html, { title: drawing.name, tags: openGraphTags({ title: drawing.name, url, image }) });
+        }
+      } catch (err) {
+        // The board itself still loads (and reports the problem) without the tags
+        log.error('Could not add Open Graph tags', { drawingId: id, err });
+      }
+    }
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    // Depends on the token in the URL
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).send(html);
+  } catch (err) {
+    if (!err.status) log.error('Page request failed', { drawingId: id, err });
+    res.status(err.status || 500).json({ error: err.message });
+  }
+}
+
+export default instrument('/d/:id', handler);
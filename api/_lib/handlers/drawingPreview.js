@@ -0,0 +1,59 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import { readPreviewUpload, sendPreview } from '../previews.js';
+import { instrument } from '../instrument.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('preview');
+
+// GET/HEAD /api/drawing/:id/preview.png = the drawing's thumbnail (view token),
+// PUT /api/drawing/:id/preview.png = replace it with the raw PNG body (edit token)
+async function handler(req, res) {
+  const { id } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+
+  const isRead = req.method === 'GET' || req.method === 'HEAD';
+  if (!isRead && req.method !== 'PUT') {
+    res.setHeader('Allow', ['GET', 'HEAD', 'PUT']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const limited = !isRead && checkRateLimit(req, res, 'upload', id);
+  if (limited) {
+    return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, id, readToken(req), isRead ? 'view' : 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    if (!auth.exists) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+
+    if (isRead) {
+      const preview = await db.findPreview(id);
+      if (!preview) {
+        return res.status(404).json({ error: 'This drawing has no preview yet' });
+      }
+      return sendPreview(req, res, preview);
+    }
+
+    const upload = await readPreviewUpload(req);
+    const saved = await db.savePreview(id, upload);
+    if (!saved) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+    return res.status(200).json({ width: upload.width, height: upload.height, updatedAt: saved.updatedAt });
+  } catch (err) {
+    if (!err.status) log.error('Preview request failed', { drawingId: id, err });
+    res.status(err.status || 500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawing/:id/preview.png', handler);
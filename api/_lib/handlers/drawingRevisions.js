@@ -0,0 +1,97 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import { publishSnapshotReset } from '../broadcast.js';
+import { readCheckpointName, restoreDrawingRevision, takeCheckpoint } from '../checkpoints.js';
+import { pusher, pusherConfigured } from '../pusher.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('revisions');
+
+// GET    /api/drawing/:id/revisions                     = list auto and named checkpoints (view token)
+// POST   /api/drawing/:id/revisions                     = name the current state { name } (edit token)
+// GET    /api/drawing/:id/revisions/:revisionId         = one revision with its snapshot, for previews
+// POST   /api/drawing/:id/revisions/:revisionId/restore = make it the drawing's snapshot again
+// DELETE /api/drawing/:id/revisions/:revisionId         = delete it
+// A restore sends every open client a `drawing-sync-request`, which makes them reload.
+async function handler(req, res) {
+  const { id, revisionId, action } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+  if (action !== undefined && action !== 'restore') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  const allowed = action ? ['POST'] : revisionId ? ['GET', 'DELETE'] : ['GET', 'POST'];
+  if (!allowed.includes(req.method)) {
+    res.setHeader('Allow', allowed);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const isRead = req.method === 'GET';
+  if (!isRead) {
+    const limited = checkRateLimit(req, res, 'save', id);
+    if (limited) {
+      return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+    }
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, id, readToken(req), isRead ? 'view' : 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    if (!auth.exists) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+
+    if (!revisionId) {
+      if (isRead) {
+        return res.status(200).json({ revisions: await db.listDrawingRevisions(id) });
+      }
+      const entry = await takeCheckpoint(db, id, { kind: 'named', name: readCheckpointName(req.body?.name) });
+      if (!entry) {
+        return res.status(409).json({ error: 'Drawing has no snapshot yet' });
+      }
+      log.info('Saved named checkpoint', { drawingId: id, revisionId: entry.id, revision: entry.revision });
+      return res.status(201).json(entry);
+    }
+
+    if (req.method === 'GET') {
+      const entry = await db.findDrawingRevision(id, revisionId);
+      if (!entry) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      return res.status(200).json(entry);
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await db.deleteDrawingRevision(id, revisionId))) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      log.info('Deleted revision', { drawingId: id, revisionId });
+      return res.status(200).json({ success: true });
+    }
+
+    const restored = await restoreDrawingRevision(db, id, revisionId);
+    if (!restored) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+    log.info('Restored revision', { drawingId: id, revisionId, revision: restored.revision });
+    try {
+      await publishSnapshotReset(pusherConfigured ? pusher : null, db, id, restored.snapshot, restored.changes);
+    } catch (err) {
+      // Stored either way; clients pick it up on their next load
+      log.warn('Could not announce restored revision', { drawingId: id, err });
+    }
+    res.status(200).json({ success: true, id, revision: restored.revision });
+  } catch (err) {
+    if (!err.status) log.error('Revision request failed', { drawingId: id, revisionId, err });
+    res.status(err.status || 500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawing/:id/revisions', handler);
@@ -0,0 +1,59 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import { publishStoredChanges } from '../broadcast.js';
+import { recordAutoCheckpoint } from '../checkpoints.js';
+import { pusher, pusherConfigured } from '../pusher.js';
+import { applyShapeRequest } from '../shapes.js';
+import { instrument } from '../instrument.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('shapes');
+
+// POST/PATCH/DELETE /api/drawing/:id/shapes – add, update or delete shapes from scripts
+async function handler(req, res) {
+  if (!['POST', 'PATCH', 'DELETE'].includes(req.method)) {
+    res.setHeader('Allow', ['POST', 'PATCH', 'DELETE']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { id } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+
+  const limited = checkRateLimit(req, res, 'save', id);
+  if (limited) {
+    return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, id, readToken(req), 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+
+    const result = await applyShapeRequest(db, id, req);
+    log.info('Applied shape request', { drawingId: id, method: req.method, revision: result.revision });
+    try {
+      await publishStoredChanges(pusherConfigured ? pusher : null, db, id, result.changes);
+    } catch (err) {
+      // Stored either way; clients pick it up on their next load
+      log.warn('Could not announce shape changes', { drawingId: id, err });
+    }
+    await recordAutoCheckpoint(db, id);
+    res.status(req.method === 'POST' ? 201 : 200).json({
+      success: true,
+      id,
+      revision: result.revision,
+      shapes: result.shapes,
+      removed: result.removed,
+    });
+  } catch (err) {
+    if (!err.status) log.error('Shape request failed', { drawingId: id, err });
+    res.status(err.status || 500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawing/:id/shapes', handler);
@@ -0,0 +1,38 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, getShareTokens, readToken } from '../access.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('drawings');
+
+// GET /api/drawings/:id/share – edit and view-only tokens for share links (editors only)
+async function handler(req, res) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id) {
+    return res.status(400).json({ error: 'Missing drawing id' });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, id, readToken(req), 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+
+    const drawing = await getShareTokens(db, id);
+    if (!drawing) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+    res.status(200).json({ id: drawing.id, editToken: drawing.editToken, viewToken: drawing.viewToken });
+  } catch (err) {
+    log.error('Share token request failed', { drawingId: id, err });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawings/:id/share', handler);
@@ -0,0 +1,54 @@
+import { randomUUID } from 'crypto';
+import { connectToDatabase } from '../db.js';
+import { readTokenList, resolveAccess } from '../access.js';
+import { instrument } from '../instrument.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('drawings');
+
+// The drawings the caller holds a share token for, newest first. Nobody can list other people's
+// boards, or find legacy ones without tokens and claim them through /share.
+async function listOwnDrawings(db, req) {
+  const drawings = [];
+  for (const [id, token] of readTokenList(req)) {
+    const drawing = await db.findDrawing(id, { snapshot: false });
+    if (!drawing || !resolveAccess(drawing, token)) continue;
+    const { name, createdAt, updatedAt } = drawing;
+    drawings.push({ id, name, createdAt, updatedAt });
+  }
+  return drawings.sort((a, b) => new Date(b.updatedAt) - new Date(a.updatedAt));
+}
+
+// GET /api/drawings = list the caller's drawings (metadata only), POST /api/drawings = create an
+// empty drawing
+async function handler(req, res) {
+  try {
+    const db = await connectToDatabase();
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(await listOwnDrawings(db, req));
+
+      case 'POST': {
+        const limited = checkRateLimit(req, res, 'save');
+        if (limited) {
+          return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+        }
+        const { name } = req.body || {};
+        const drawing = await db.createDrawing({ id: randomUUID(), name: name?.trim() || undefined });
+        log.info('Created drawing', { drawingId: drawing.id });
+        return res.status(201).json(drawing);
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (err) {
+    log.error('Drawings request failed', { err });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/drawings', handler);
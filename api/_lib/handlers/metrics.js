@@ -0,0 +1,28 @@
+import { hasBearerToken } from '../cron.js';
+import { instrument } from '../instrument.js';
+import { metricsSnapshot, metricsText } from '../metrics.js';
+
+// GET /api/metrics – this process's counters and histograms (see metrics.js) as JSON, or in the
+// Prometheus text format with ?format=prometheus or `Accept: text/plain`. Needs
+// `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.
+async function handler(req, res) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = process.env.METRICS_TOKEN;
+  if (secret && !hasBearerToken(req, secret)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  const wantsText = req.query.format === 'prometheus' || /^text\/plain\b/.test(req.headers.accept ?? '');
+  if (wantsText) {
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    return res.status(200).send(metricsText());
+  }
+  res.status(200).json(metricsSnapshot());
+}
+
+export default instrument('/api/metrics', handler);
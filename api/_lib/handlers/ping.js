@@ -0,0 +1,68 @@
+import { DB_DRIVER, connectToDatabase } from '../db.js';
+import { instrument } from '../instrument.js';
+import { pusher, pusherConfigured } from '../pusher.js';
+
+// Each check gives up after this long
+const CHECK_TIMEOUT = 3000;
+
+// Run one check: { status: 'ok', latencyMs } or { status: 'error', latencyMs, error }
+async function runCheck(check) {
+  const start = performance.now();
+  let timeout;
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timeout = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT} ms`)), CHECK_TIMEOUT);
+      }),
+    ]);
+    return { status: 'ok', latencyMs: Math.round(performance.now() - start) };
+  } catch (err) {
+    return { status: 'error', latencyMs: Math.round(performance.now() - start), error: err.message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function checkDatabase() {
+  const db = await connectToDatabase();
+  await db.ping();
+}
+
+// A signed REST call: fails with 401/403 when the app id, key or secret is wrong
+async function checkPusher() {
+  try {
+    await pusher.get({ path: '/channels' });
+  } catch (err) {
+    if (err.status === 401 || err.status === 403) throw new Error(`Pusher rejected the credentials (${err.status})`);
+    // Network failures carry the underlying error as `error`
+    throw new Error(err.error?.message ? `${err.message}: ${err.error.message}` : err.message);
+  }
+}
+
+// GET /api/ping – health check. 200 while the database answers ('ok', or 'degraded' when Pusher
+// doesn't), 503 when it doesn't.
+async function handler(req, res) {
+  const [database, pusherCheck] = await Promise.all([
+    runCheck(checkDatabase),
+    pusherConfigured ? runCheck(checkPusher) : { status: 'unconfigured' },
+  ]);
+  const status = database.status !== 'ok' ? 'error' : pusherCheck.status === 'error' ? 'degraded' : 'ok';
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(status === 'error' ? 503 : 200).json({
+    status,
+    timestamp: new Date().toISOString(),
+    checks: {
+      database: { driver: DB_DRIVER, ...database },
+      pusher: pusherCheck,
+    },
+    env: {
+      dbDriver: DB_DRIVER,
+      hasUri: !!process.env.MONGODB_URI,
+      nodeEnv: process.env.NODE_ENV
+    }
+  });
+}
+
+export default instrument('/api/ping', handler);
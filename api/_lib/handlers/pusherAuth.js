@@ -0,0 +1,30 @@
+import { connectToDatabase } from '../db.js';
+import { pusher, pusherConfigured } from '../pusher.js';
+import { authorizeDrawingChannel } from '../pusherAuth.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+
+const log = createLogger('pusher');
+
+// POST /api/pusher-auth – authorize presence/private drawing channels (form-encoded by pusher-js)
+async function handler(req, res) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!pusherConfigured) {
+    return res.status(500).json({ error: 'Pusher server-side configuration missing' });
+  }
+
+  try {
+    const db = await connectToDatabase();
+    const result = await authorizeDrawingChannel(pusher, db, req.body);
+    res.status(result.status).json(result.body);
+  } catch (err) {
+    log.error('Channel authorization failed', { err });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+export default instrument('/api/pusher-auth', handler);
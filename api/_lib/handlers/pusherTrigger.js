@@ -0,0 +1,70 @@
+import { connectToDatabase } from '../db.js';
+import { authorizeDrawing, readToken } from '../access.js';
+import { broadcastDrawingDiff } from '../broadcast.js';
+import { pusher, pusherConfigured } from '../pusher.js';
+import { validateChanges } from '../snapshots.js';
+import { instrument } from '../instrument.js';
+import { createLogger } from '../log.js';
+import { checkRateLimit } from '../rateLimit.js';
+import { BROADCAST_MAX_BYTES, assertBodySize, validateDrawingId, validateSocketId } from '../validation.js';
+
+const log = createLogger('pusher');
+
+// POST /api/pusher-trigger – relay a client's diff to the drawing's Pusher channel. Saving is
+// left to /api/drawing, which checks the client's base revision.
+async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, changes, socketId } = req.body || {};
+  if (!id) {
+    return res.status(400).json({ error: 'Drawing id is required' });
+  }
+  if (!changes) {
+    return res.status(400).json({ error: 'Changes are required' });
+  }
+
+  if (!pusherConfigured) {
+    return res.status(500).json({ error: 'Pusher server-side configuration missing' });
+  }
+
+  try {
+    validateDrawingId(id);
+    validateSocketId(socketId);
+    assertBodySize(req, BROADCAST_MAX_BYTES);
+
+    const limited = checkRateLimit(req, res, 'broadcast', id);
+    if (limited) {
+      return res.status(limited.status).json({ error: limited.error, retryAfter: limited.retryAfter });
+    }
+
+    const db = await connectToDatabase();
+    const auth = await authorizeDrawing(db, id, readToken(req), 'edit');
+    if (!auth.ok) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+
+    validateChanges(changes);
+    const { sent, seq } = await broadcastDrawingDiff(pusher, db, id, changes, socketId);
+    if (sent === 'sync-request') {
+      log.warn('Diff too large to send, triggered sync request', { drawingId: id, seq });
+    } else {
+      log.info('Broadcast diff', { drawingId: id, seq, sent, excluded: socketId || null });
+    }
+
+    // The sender never receives its own diff, so it needs the seq to know it isn't a gap
+    res.status(200).json({ success: true, seq });
+  } catch (err) {
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    log.error('Broadcast failed', { drawingId: id, err });
+    res.status(500).json({
+      error: 'Pusher Operation Failed',
+      details: err.message
+    });
+  }
+}
+
+export default instrument('/api/pusher-trigger', handler);
@@ -0,0 +1,31 @@
+import { randomUUID } from 'crypto';
+import { createLogger, runWithRequestId } from './log.js';
+import { increment, observe } from './metrics.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const log = createLogger('http');
+
+// A caller-supplied request id (from a proxy or the client) is kept if it looks sane
+function readRequestId(req) {
+  const id = req.headers?.[REQUEST_ID_HEADER.toLowerCase()];
+  return typeof id === 'string' && /^[\w.:-]{1,128}$/.test(id) ? id : randomUUID();
+}
+
+// Wrap an API handler so everything it logs carries a request id (echoed in X-Request-Id),
+// and each request is logged and counted under `route` once the response is sent
+export function instrument(route, handler) {
+  return function instrumented(req, res) {
+    const requestId = readRequestId(req);
+    const start = performance.now();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    res.on('finish', () => {
+      const durationMs = Math.round((performance.now() - start) * 100) / 100;
+      const status = res.statusCode;
+      increment('http_requests_total', { route, method: req.method, status });
+      observe('http_request_duration_ms', durationMs, { route });
+      runWithRequestId(requestId, () => log.info('Request', { method: req.method, route, status, durationMs }));
+    });
+    return runWithRequestId(requestId, () => handler(req, res));
+  };
+}
@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Structured logs: one JSON object per line with time, level, component, msg and the id of the
+// request being handled (see instrument.js), plus any fields passed along. Levels below
+// LOG_LEVEL (debug, info, warn, error; default info) are dropped.
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const minLevel = LEVELS[process.env.LOG_LEVEL?.toLowerCase()] ?? LEVELS.info;
+
+const requestContext = new AsyncLocalStorage();
+
+// Run `fn` with `requestId` attached to everything it logs
+export function runWithRequestId(requestId, fn) {
+  return requestContext.run({ requestId }, fn);
+}
+
+export function currentRequestId() {
+  return requestContext.getStore()?.requestId;
+}
+
+function serializeError(err) {
+  if (!(err instanceof Error)) return err;
+  return {
+    name: err.name,
+    message: err.message,
+    ...(err.status !== undefined && { status: err.status }),
+    ...(err.code !== undefined && { code: err.code }),
+    stack: err.stack,
+  };
+}
+
+function write(level, component, msg, fields) {
+  if (LEVELS[level] < minLevel) return;
+  const { err, ...rest } = fields ?? {};
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg,
+    requestId: currentRequestId(),
+    ...rest,
+  };
+  if (err !== undefined) entry.err = serializeError(err);
+  const line = JSON.stringify(entry);
+  if (LEVELS[level] >= LEVELS.warn) console.error(line);
+  else console.log(line);
+}
+
+// Logger for one part of the server: log.info('Saved snapshot', { drawingId, revision }).
+// Errors go in the `err` field.
+export function createLogger(component) {
+  return {
+    debug: (msg, fields) => write('debug', component, msg, fields),
+    info: (msg, fields) => write('info', component, msg, fields),
+    warn: (msg, fields) => write('warn', component, msg, fields),
+    error: (msg, fields) => write('error', component, msg, fields),
+  };
+}
@@ -0,0 +1,108 @@
+// In-process counters and histograms, served by /api/metrics as JSON or in the Prometheus text
+// format. Each process (or serverless instance) counts on its own from when it started.
+
+const DURATION_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const BYTE_BUCKETS = [1024, 10 * 1024, 100 * 1024, 1024 * 1024, 10 * 1024 * 1024];
+
+const startedAt = new Date();
+const counters = new Map(); // name -> Map(label key -> { labels, value })
+const histograms = new Map(); // name -> Map(label key -> { labels, count, sum, buckets })
+
+function labelKey(labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)));
+}
+
+function series(metrics, name, labels, create) {
+  let byLabels = metrics.get(name);
+  if (!byLabels) {
+    byLabels = new Map();
+    metrics.set(name, byLabels);
+  }
+  const key = labelKey(labels);
+  let entry = byLabels.get(key);
+  if (!entry) {
+    entry = { labels: { ...labels }, ...create() };
+    byLabels.set(key, entry);
+  }
+  return entry;
+}
+
+// Buckets follow the unit in the name: *_ms and *_bytes
+function bucketsFor(name) {
+  return name.endsWith('_bytes') ? BYTE_BUCKETS : DURATION_BUCKETS;
+}
+
+export function increment(name, labels = {}, by = 1) {
+  series(counters, name, labels, () => ({ value: 0 })).value += by;
+}
+
+export function observe(name, value, labels = {}) {
+  if (!Number.isFinite(value)) return;
+  const bounds = bucketsFor(name);
+  const entry = series(histograms, name, labels, () => ({ count: 0, sum: 0, buckets: bounds.map(() => 0) }));
+  entry.count += 1;
+  entry.sum += value;
+  bounds.forEach((bound, i) => {
+    if (value <= bound) entry.buckets[i] += 1;
+  });
+}
+
+// Time an async operation into the `name` histogram (milliseconds)
+export async function timed(name, labels, fn) {
+  const start = performance.now();
+  try {
+    return await fn();
+  } finally {
+    observe(name, performance.now() - start, labels);
+  }
+}
+
+export function metricsSnapshot() {
+  return {
+    startedAt: startedAt.toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+    counters: Object.fromEntries(
+      [...counters].map(([name, byLabels]) => [name, [...byLabels.values()].map((entry) => ({ ...entry }))])
+    ),
+    histograms: Object.fromEntries(
+      [...histograms].map(([name, byLabels]) => [
+        name,
+        [...byLabels.values()].map(({ labels, count, sum, buckets }) => ({
+          labels,
+          count,
+          sum: Math.round(sum * 100) / 100,
+          buckets: Object.fromEntries(bucketsFor(name).map((bound, i) => [bound, buckets[i]])),
+        })),
+      ])
+    ),
+  };
+}
+
+// Label values escape backslashes, quotes and newlines as \\, \" and \n
+function escapeLabelValue(value) {
+  return String(value).replace(/["\\\n]/g, (char) => (char === '\n' ? '\\n' : `\\${char}`));
+}
+
+function formatLabels(labels) {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+export function metricsText() {
+  const lines = [];
+  for (const [name, byLabels] of counters) {
+    lines.push(`# TYPE ${name} counter`);
+    for (const { labels, value } of byLabels.values()) lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+  for (const [name, byLabels] of histograms) {
+    const bounds = bucketsFor(name);
+    lines.push(`# TYPE ${name} histogram`);
+    for (const { labels, count, sum, buckets } of byLabels.values()) {
+      bounds.forEach((bound, i) => lines.push(`${name}_bucket${formatLabels({ ...labels, le: bound })} ${buckets[i]}`));
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
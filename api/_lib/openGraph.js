@@ -0,0 +1,84 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// Open Graph tags for drawing pages (/d/:id), so a pasted board link unfurls with the drawing's
+// name and thumbnail. The tags go into the built index.html: dist/index.html when it is next to
+// the server (vercel.json bundles it with the page function), otherwise the copy served from
+// PUBLIC_URL or the Vercel deployment's own URL. Never from the request's Host, which the client
+// picks: the template is shared by every later page.
+
+const SITE_NAME = 'dessimbol';
+
+let template = null; // index.html, loaded once per process
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Absolute origin for links in the tags: PUBLIC_URL, or the one the request came in on
+export function publicOrigin(req) {
+  if (process.env.PUBLIC_URL) return process.env.PUBLIC_URL.replace(/\/+$/, '');
+  const proto = req.headers['x-forwarded-proto']?.split(',')[0].trim() || 'http';
+  const host = req.headers['x-forwarded-host'] || req.headers.host;
+  return `${proto}://${host}`;
+}
+
+// Origin to fetch index.html from when it isn't on disk
+function templateOrigin() {
+  if (process.env.PUBLIC_URL) return process.env.PUBLIC_URL.replace(/\/+$/, '');
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return null;
+}
+
+export async function loadIndexHtml() {
+  if (template) return template;
+  try {
+    template = await readFile(path.join(process.cwd(), 'dist', 'index.html'), 'utf8');
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+    const origin = templateOrigin();
+    const res = origin ? await fetch(`${origin}/index.html`) : null;
+    if (!res?.ok) {
+      const notBuilt = new Error('index.html not found – run `npm run build` first');
+      notBuilt.status = 404;
+      throw notBuilt;
+    }
+    template = await res.text();
+  }
+  return template;
+}
+
+// `image` is { url, type, width, height } or undefined
+export function openGraphTags({ title, url, image }) {
+  const tags = [
+    ['og:site_name', SITE_NAME],
+    ['og:type', 'website'],
+    ['og:title', title],
+    ['og:url', url],
+    ['twitter:card', image ? 'summary_large_image' : 'summary'],
+    ['twitter:title', title],
+  ];
+  if (image) {
+    tags.push(['og:image', image.url], ['og:image:type', image.type], ['twitter:image', image.url]);
+    if (image.width && image.height) {
+      tags.push(['og:image:width', image.width], ['og:image:height', image.height]);
+    }
+  }
+  return tags
+    .map(([property, content]) => {
+      const attribute = property.startsWith('twitter:') ? 'name' : 'property';
+      return `<meta ${attribute}="${property}" content="${escapeHtml(content)}" />`;
+    })
+    .join('\n\t\t');
+}
+
+// index.html with the page title set and `tags` added to the head
+export function injectHead(html, { title, tags }) {
+  return html
+    .replace(/<title>[\s\S]*?<\/title>/i, `<title>${escapeHtml(`${SITE_NAME} - ${title}`)}</title>`)
+    .replace(/<\/head>/i, `\t${tags}\n\t</head>`);
+}
@@ -0,0 +1,51 @@
+import { readBody, sniffMimeType } from './assets.js';
+
+// Drawing thumbnails: the board uploads a downscaled PNG of the current page every so often
+// while it is being edited, and /api/drawing/:id/preview.png serves it to the drawing list
+// and to link unfurlers (see openGraph.js).
+
+export const PREVIEW_MAX_BYTES = 1024 * 1024;
+// Largest accepted thumbnail; the client renders at most 1200×630, the usual Open Graph size
+const PREVIEW_MAX_SIDE = 2048;
+
+function previewError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function tooLarge() {
+  return previewError(413, `Preview is larger than ${PREVIEW_MAX_BYTES / 1024} KB`);
+}
+
+// Width and height from a PNG's IHDR chunk, which always comes first
+function pngSize(data) {
+  if (data.length < 24 || data.toString('latin1', 12, 16) !== 'IHDR') return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+// Read and check an uploaded thumbnail (raw PNG body). Returns { data, mimeType, width, height }.
+export async function readPreviewUpload(req) {
+  const data = await readBody(req, PREVIEW_MAX_BYTES, tooLarge);
+  if (data.length === 0) throw previewError(400, 'Missing preview data');
+  const size = sniffMimeType(data) === 'image/png' ? pngSize(data) : null;
+  if (!size) throw previewError(415, 'Previews must be PNG images');
+  if (!size.width || !size.height || size.width > PREVIEW_MAX_SIDE || size.height > PREVIEW_MAX_SIDE) {
+    throw previewError(400, `Previews must be at most ${PREVIEW_MAX_SIDE}px on each side`);
+  }
+  return { data, mimeType: 'image/png', ...size };
+}
+
+// Serve a stored thumbnail. It changes on every upload, so clients revalidate each time.
+export function sendPreview(req, res, preview) {
+  const etag = `"${preview.updatedAt.getTime().toString(36)}-${preview.data.length.toString(36)}"`;
+  res.setHeader('Content-Type', preview.mimeType);
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('Last-Modified', preview.updatedAt.toUTCString());
+  res.setHeader('ETag', etag);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  if (req.headers['if-none-match'] === etag) return res.status(304).end();
+  res.setHeader('Content-Length', preview.data.length);
+  if (req.method === 'HEAD') return res.status(200).end();
+  return res.status(200).end(preview.data);
+}
@@ -0,0 +1,23 @@
+import Pusher from 'pusher';
+import { createLogger } from './log.js';
+
+// Server-side Pusher client shared by the API handlers
+
+export const pusherConfigured = !!(
+  process.env.PUSHER_APP_ID &&
+  process.env.VITE_PUSHER_KEY &&
+  process.env.PUSHER_SECRET &&
+  process.env.VITE_PUSHER_CLUSTER
+);
+
+if (!pusherConfigured) {
+  createLogger('pusher').warn('Missing environment variables, live sync is disabled');
+}
+
+export const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID,
+  key: process.env.VITE_PUSHER_KEY,
+  secret: process.env.PUSHER_SECRET,
+  cluster: process.env.VITE_PUSHER_CLUSTER,
+  useTLS: true,
+});
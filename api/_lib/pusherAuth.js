@@ -0,0 +1,43 @@
+import { randomUUID } from 'crypto';
+import { authorizeDrawing } from './access.js';
+
+// Only drawing channels may be authorized: `presence-drawing-<id>` / `private-drawing-<id>`
+const CHANNEL_PATTERN = /^(presence|private)-drawing-([^\s]+)$/;
+
+function clean(value, maxLength) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+// Authorize a pusher-js channel subscription. Subscribing needs at least view access to the
+// drawing (share token sent as the `token` auth param). Every presence subscription gets a member
+// id made up here, which Pusher attaches to the member's client events, so nobody can send
+// presence as someone else. The name and color are the tldraw ones the client sends as auth params.
+export async function authorizeDrawingChannel(pusher, db, body) {
+  const { socket_id: socketId, channel_name: channelName } = body || {};
+
+  if (!socketId || !channelName) {
+    return { status: 400, body: { error: 'Missing socket_id or channel_name' } };
+  }
+  const match = channelName.match(CHANNEL_PATTERN);
+  if (!match) {
+    return { status: 403, body: { error: 'Channel not allowed' } };
+  }
+
+  const auth = await authorizeDrawing(db, match[2], body.token, 'view');
+  if (!auth.ok) {
+    return { status: auth.status, body: { error: auth.error } };
+  }
+
+  if (channelName.startsWith('private-')) {
+    return { status: 200, body: pusher.authorizeChannel(socketId, channelName) };
+  }
+
+  const presenceData = {
+    user_id: randomUUID(),
+    user_info: {
+      name: clean(body.user_name, 64) || 'Anonymous',
+      color: clean(body.user_color, 32) || null,
+    },
+  };
+  return { status: 200, body: pusher.authorizeChannel(socketId, channelName, presenceData) };
+}
@@ -0,0 +1,92 @@
+import { createLogger } from './log.js';
+import { increment } from './metrics.js';
+
+// Token-bucket rate limits for the write endpoints, per client (IP address) and per drawing.
+// Each bucket holds `burst` requests and refills at `rate` per second. Buckets live in the
+// process, so on Vercel every function instance limits on its own; the limits still stop a
+// single script from flooding a drawing. RATE_LIMITS=off turns them off (e.g. for load tests).
+
+const log = createLogger('rate-limit');
+
+// The Pusher client broadcasts at most every 60 ms and saves every 2 s; the limits leave
+// room for a few tabs behind the same address
+export const RATE_LIMITS = {
+  broadcast: { client: { rate: 30, burst: 60 }, drawing: { rate: 100, burst: 200 } },
+  save: { client: { rate: 5, burst: 20 }, drawing: { rate: 20, burst: 50 } },
+  upload: { client: { rate: 2, burst: 20 }, drawing: { rate: 10, burst: 40 } },
+};
+
+const enabled = process.env.RATE_LIMITS?.toLowerCase() !== 'off';
+
+// Idle buckets are dropped once there are this many, so the maps can't grow without bound
+const MAX_BUCKETS = 10000;
+const buckets = new Map(); // `${policy}:${scope}:${key}` -> { tokens, updatedAt }
+
+// The bucket for `bucketKey`, topped up to `now`
+function refillBucket(bucketKey, { rate, burst }, now) {
+  let bucket = buckets.get(bucketKey);
+  if (!bucket) {
+    bucket = { tokens: burst, updatedAt: now };
+    buckets.set(bucketKey, bucket);
+  }
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+// Full buckets are the same as no bucket
+function pruneBuckets(now) {
+  for (const [key, bucket] of buckets) {
+    const [policy, scope] = key.split(':');
+    const { rate, burst } = RATE_LIMITS[policy][scope];
+    if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate >= burst) buckets.delete(key);
+  }
+}
+
+// Proxies in front of the server whose X-Forwarded-For entries can be believed: TRUST_PROXY hops,
+// by default one on Vercel (which overwrites the header) and none otherwise
+const TRUSTED_PROXIES = process.env.TRUST_PROXY ? Number(process.env.TRUST_PROXY) || 0 : process.env.VERCEL ? 1 : 0;
+
+// The caller's address: the connection's peer, or with trusted proxies the X-Forwarded-For entry
+// the nearest untrusted hop added. Entries further left are whatever the client sent.
+export function clientAddress(req) {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  const hops = [
+    ...(typeof forwarded === 'string' ? forwarded.split(',').map((entry) => entry.trim()) : []),
+    req.socket?.remoteAddress,
+  ].filter(Boolean);
+  return hops[Math.max(0, hops.length - 1 - TRUSTED_PROXIES)] || 'unknown';
+}
+
+// Spend one request of `policy` for `client` and (when given) `drawingId`. Returns null when
+// allowed, or { status: 429, error, retryAfter } (seconds).
+export function consumeRateLimit(policy, client, drawingId) {
+  if (!enabled) return null;
+  const limits = RATE_LIMITS[policy];
+  const now = Date.now();
+  const checks = [['client', client]];
+  if (drawingId) checks.push(['drawing', drawingId]);
+  // Pruned up front, so it can't drop a bucket this request is about to spend from
+  if (buckets.size + checks.length > MAX_BUCKETS) pruneBuckets(now);
+  const refilled = checks.map(([scope, key]) => [scope, refillBucket(`${policy}:${scope}:${key}`, limits[scope], now)]);
+  // Nothing is spent unless every bucket allows the request
+  for (const [scope, bucket] of refilled) {
+    if (bucket.tokens < 1) {
+      increment('rate_limited_total', { policy, scope });
+      log.warn('Rate limited', { policy, scope, client, drawingId });
+      // Seconds until the next token
+      const retryAfter = Math.max(1, Math.ceil((1 - bucket.tokens) / limits[scope].rate));
+      const error = scope === 'drawing' ? 'Too many requests for this drawing' : 'Too many requests';
+      return { status: 429, error: `${error}, retry in ${retryAfter}s`, retryAfter };
+    }
+  }
+  for (const [, bucket] of refilled) bucket.tokens -= 1;
+  return null;
+}
+
+// consumeRateLimit for an API request; sets Retry-After when it is limited
+export function checkRateLimit(req, res, policy, drawingId) {
+  const limited = consumeRateLimit(policy, clientAddress(req), drawingId);
+  if (limited) res.setHeader('Retry-After', String(limited.retryAfter));
+  return limited;
+}
@@ -0,0 +1,12 @@
+// Optimistic concurrency for drawing snapshots.
+// Every successful write bumps `revision`; writers send the revision they last loaded and
+// are rejected when someone else has saved in the meantime. The check itself is part of each
+// database driver's saveSnapshot (see db.js).
+
+export const REVISION_HEADER = 'X-Drawing-Revision';
+
+export function parseRevision(value) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision >= 0 ? revision : undefined;
+}
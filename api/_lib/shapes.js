@@ -0,0 +1,186 @@
+import { createShapeId, createTLSchema } from '@tldraw/tlschema';
+import { getIndexAbove, sortByIndex } from '@tldraw/utils';
+import { upgradeStoredDrawing } from './snapshots.js';
+
+// Record-level shape edits for scripts (POST/PATCH/DELETE /api/drawing/:id/shapes). Each request
+// becomes a record diff against the stored snapshot, validated with the tldraw schema; the routes
+// store it with db.applyChanges and broadcast it like any client diff.
+
+const MAX_SHAPES_PER_REQUEST = 500;
+
+const ShapeRecordType = createTLSchema().types.shape;
+
+function shapeError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function validateShape(record, recordBefore) {
+  try {
+    return ShapeRecordType.validate(record, recordBefore);
+  } catch (err) {
+    throw shapeError(400, err.message);
+  }
+}
+
+function readShapeList(body) {
+  const shapes = body?.shapes;
+  if (!Array.isArray(shapes) || shapes.length === 0) {
+    throw shapeError(400, 'A non-empty shapes array is required');
+  }
+  if (shapes.length > MAX_SHAPES_PER_REQUEST) {
+    throw shapeError(400, `At most ${MAX_SHAPES_PER_REQUEST} shapes per request`);
+  }
+  for (const shape of shapes) {
+    if (!shape || typeof shape !== 'object' || Array.isArray(shape)) {
+      throw shapeError(400, 'Each shape must be an object');
+    }
+  }
+  return shapes;
+}
+
+// Ids to delete come from the body (`{ ids: [...] }`) or the query string (`?ids=a,b`)
+function readShapeIds(req) {
+  const ids = req.body?.ids ?? (typeof req.query?.ids === 'string' ? req.query.ids.split(',') : undefined);
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string' || !id)) {
+    throw shapeError(400, 'A non-empty ids array is required');
+  }
+  return ids;
+}
+
+function isContainer(record) {
+  return record?.typeName === 'page' || record?.typeName === 'shape';
+}
+
+// New shapes go on top of their siblings unless the caller picks an index
+function topChildIndex(records, parentId) {
+  let top;
+  for (const record of records) {
+    if (record.typeName === 'shape' && record.parentId === parentId && (!top || record.index > top)) {
+      top = record.index;
+    }
+  }
+  return top;
+}
+
+export function createShapesChanges(snapshot, inputs) {
+  const store = snapshot.store;
+  const added = {};
+  const lookup = (id) => added[id] ?? store[id];
+  const pageId = Object.values(store)
+    .filter((record) => record.typeName === 'page')
+    .sort(sortByIndex)[0]?.id;
+
+  for (const input of inputs) {
+    const id = input.id ?? createShapeId();
+    if (lookup(id)) {
+      throw shapeError(409, `Shape ${id} already exists`);
+    }
+    const parentId = input.parentId ?? pageId;
+    if (!isContainer(lookup(parentId))) {
+      throw shapeError(400, parentId ? `Parent ${parentId} not found` : 'Drawing has no page to add shapes to');
+    }
+    const index =
+      input.index ?? getIndexAbove(topChildIndex([...Object.values(store), ...Object.values(added)], parentId));
+    added[id] = validateShape(ShapeRecordType.create({ ...input, id, parentId, index }));
+  }
+
+  return { added, updated: {}, removed: {} };
+}
+
+// Partial updates: top-level fields replace, `props` and `meta` are merged into the stored ones
+export function updateShapesChanges(snapshot, inputs) {
+  const store = snapshot.store;
+  const updated = {};
+
+  for (const input of inputs) {
+    const before = store[input.id];
+    if (before?.typeName !== 'shape') {
+      throw shapeError(404, `Shape ${input.id} not found`);
+    }
+    const prev = updated[before.id]?.[1] ?? before;
+    const next = {
+      ...prev,
+      ...input,
+      id: before.id,
+      typeName: before.typeName,
+      props: { ...prev.props, ...input.props },
+      meta: { ...prev.meta, ...input.meta },
+    };
+    if (next.parentId !== before.parentId && (next.parentId === next.id || !isContainer(store[next.parentId]))) {
+      throw shapeError(400, `Parent ${next.parentId} not found`);
+    }
+    updated[before.id] = [before, validateShape(next, before)];
+  }
+
+  return { added: {}, updated, removed: {} };
+}
+
+// Deleting a shape also removes its descendants and any bindings (e.g. arrows) attached to them
+export function deleteShapesChanges(snapshot, ids) {
+  const store = snapshot.store;
+  const children = new Map();
+  for (const record of Object.values(store)) {
+    if (record.typeName !== 'shape') continue;
+    if (!children.has(record.parentId)) children.set(record.parentId, []);
+    children.get(record.parentId).push(record);
+  }
+
+  const removed = {};
+  const remove = (record) => {
+    if (removed[record.id]) return;
+    removed[record.id] = record;
+    for (const child of children.get(record.id) ?? []) remove(child);
+  };
+  for (const id of ids) {
+    if (store[id]?.typeName !== 'shape') {
+      throw shapeError(404, `Shape ${id} not found`);
+    }
+    remove(store[id]);
+  }
+  for (const record of Object.values(store)) {
+    if (record.typeName === 'binding' && (removed[record.fromId] || removed[record.toId])) {
+      removed[record.id] = record;
+    }
+  }
+
+  return { added: {}, updated: {}, removed };
+}
+
+// Turn a shapes request into a diff and store it. Returns { changes, revision, shapes, removed }
+// where `shapes` are the created/updated records and `removed` the deleted record ids.
+// Throws errors carrying an HTTP `status` for bad input or a missing drawing.
+export async function applyShapeRequest(db, id, req) {
+  // Shapes are created at the current schema, so the stored snapshot must be too
+  const drawing = await upgradeStoredDrawing(db, await db.findDrawing(id));
+  if (!drawing?.snapshot?.store) {
+    throw shapeError(404, 'Drawing has no snapshot yet');
+  }
+
+  let changes;
+  switch (req.method) {
+    case 'POST':
+      changes = createShapesChanges(drawing.snapshot, readShapeList(req.body));
+      break;
+    case 'PATCH':
+      changes = updateShapesChanges(drawing.snapshot, readShapeList(req.body));
+      break;
+    case 'DELETE':
+      changes = deleteShapesChanges(drawing.snapshot, readShapeIds(req));
+      break;
+    default:
+      throw shapeError(405, `Method ${req.method} Not Allowed`);
+  }
+
+  const result = await db.applyChanges(id, changes);
+  if (!result.ok) {
+    throw shapeError(404, 'Drawing has no snapshot yet');
+  }
+  return {
+    changes,
+    revision: result.revision,
+    shapes: [...Object.values(changes.added), ...Object.values(changes.updated).map(([, next]) => next)],
+    removed: Object.keys(changes.removed),
+  };
+}
@@ -0,0 +1,60 @@
+// Recently served and saved snapshots by drawing and revision, so GET /api/drawing?since=<revision>
+// can answer with just the records changed since then. They are kept as JSON in process memory:
+// the newest few revisions of each drawing, SNAPSHOT_CACHE_MB (default 32) in all, least recently
+// used dropped first. Every process has its own, so on Vercel a poll that lands on another
+// function instance gets the whole snapshot instead.
+
+const MAX_CHARS = (Number(process.env.SNAPSHOT_CACHE_MB) || 32) * 1024 * 1024;
+const REVISIONS_PER_DRAWING = 3;
+
+// `${drawingId}:${revision}` → { drawingId, revision, createdAt, json }, least recently used first
+const entries = new Map();
+let totalChars = 0;
+
+// Tells a drawing apart from a later one created with the same id, whose revisions start over
+function createdAtOf(drawing) {
+  return drawing.createdAt ? new Date(drawing.createdAt).getTime() : null;
+}
+
+function evict(key) {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entries.delete(key);
+  totalChars -= entry.json.length;
+}
+
+// Whether `drawing` at `revision` is cached (without marking it as used)
+export function hasSnapshot(drawing, revision) {
+  const entry = entries.get(`${drawing.id}:${revision}`);
+  return Boolean(entry) && entry.createdAt === createdAtOf(drawing);
+}
+
+// Keep the JSON of `drawing`'s snapshot at `revision`
+export function rememberSnapshot(drawing, revision, json) {
+  if (json.length > MAX_CHARS) return;
+  const key = `${drawing.id}:${revision}`;
+  evict(key);
+  entries.set(key, { drawingId: drawing.id, revision, createdAt: createdAtOf(drawing), json });
+  totalChars += json.length;
+
+  const older = [...entries.values()]
+    .filter((entry) => entry.drawingId === drawing.id)
+    .sort((a, b) => b.revision - a.revision)
+    .slice(REVISIONS_PER_DRAWING);
+  for (const entry of older) evict(`${entry.drawingId}:${entry.revision}`);
+  for (const oldest of entries.keys()) {
+    if (totalChars <= MAX_CHARS) break;
+    evict(oldest);
+  }
+}
+
+// `drawing`'s snapshot at `revision`, or null when this process doesn't have it
+export function recallSnapshot(drawing, revision) {
+  const key = `${drawing.id}:${revision}`;
+  const entry = entries.get(key);
+  if (!entry || entry.createdAt !== createdAtOf(drawing)) return null;
+  // Most recently used goes last
+  entries.delete(key);
+  entries.set(key, entry);
+  return JSON.parse(entry.json);
+}
@@ -0,0 +1,145 @@
+import { createTLSchema } from '@tldraw/tlschema';
+import { createLogger } from './log.js';
+
+// Stored snapshots against the tldraw schema (default shapes and bindings, same as the client).
+// Incoming snapshots and diffs are validated record by record before they are stored. Only
+// document records (document, page, shape, binding, asset) are accepted: per-tab session state
+// such as cameras, pointers and presence never belongs in a drawing. Snapshots saved by an
+// older tldraw version are migrated when they are read, then written back so each drawing is
+// upgraded only once. `npm run snapshots:check` does the same for every drawing after a tldraw
+// upgrade.
+
+const schema = createTLSchema();
+const log = createLogger('snapshots');
+
+// Record types a drawing is made of (everything else is per-tab state)
+export const DOCUMENT_RECORD_TYPES = new Set(
+  Object.values(schema.types).filter((type) => type.scope === 'document').map((type) => type.typeName)
+);
+// Most records one diff may touch
+export const MAX_DIFF_RECORDS = 10000;
+const DIFF_KEYS = ['added', 'updated', 'removed'];
+
+function snapshotError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function isObject(value) {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// The schema snapshots are stored with after migration
+export function currentSchema() {
+  return schema.serialize();
+}
+
+// Whether a snapshot was saved with an older schema. Throws for a schema we can't migrate from
+// (e.g. one written by a newer tldraw).
+export function needsMigration(snapshot) {
+  const migrations = schema.getMigrationsSince(snapshot.schema);
+  if (!migrations.ok) {
+    throw snapshotError(422, `Snapshot schema is not supported: ${migrations.error}`);
+  }
+  return migrations.value.length > 0;
+}
+
+// { store, schema } at the current schema version; returns the input when it is already current
+export function migrateSnapshot(snapshot) {
+  if (!needsMigration(snapshot)) return snapshot;
+  const result = schema.migrateStoreSnapshot(snapshot);
+  if (result.type === 'error') {
+    throw snapshotError(422, `Snapshot could not be migrated: ${result.reason}`);
+  }
+  return { store: result.value, schema: currentSchema() };
+}
+
+export function validateRecord(record, id = record?.id) {
+  const recordType = schema.types[record?.typeName];
+  if (!recordType) {
+    throw snapshotError(400, `Unknown record type "${record?.typeName}" for ${id}`);
+  }
+  if (!DOCUMENT_RECORD_TYPES.has(record.typeName)) {
+    throw snapshotError(400, `Record type "${record.typeName}" is not part of a drawing (${id})`);
+  }
+  if (record.id !== id) {
+    throw snapshotError(400, `Record ${record.id} is stored under ${id}`);
+  }
+  try {
+    recordType.validate(record);
+  } catch (err) {
+    throw snapshotError(400, `Invalid record ${id}: ${err.message}`);
+  }
+}
+
+// Validate an incoming { store, schema } snapshot and bring it up to the current schema.
+// Throws errors with status 400 describing the first problem found.
+export function validateSnapshot(snapshot) {
+  if (!isObject(snapshot) || !isObject(snapshot.store) || !isObject(snapshot.schema)) {
+    throw snapshotError(400, 'Snapshot must be an object with `store` and `schema`');
+  }
+  let migrated;
+  try {
+    migrated = migrateSnapshot(snapshot);
+  } catch (err) {
+    throw snapshotError(400, err.message);
+  }
+  for (const [id, record] of Object.entries(migrated.store)) {
+    validateRecord(record, id);
+  }
+  return migrated;
+}
+
+// Validate a client diff: its shape, the records it adds or updates, and the ids it removes.
+// Diffs are produced at the current schema.
+export function validateChanges(changes) {
+  if (!isObject(changes)) {
+    throw snapshotError(400, 'Changes must be an object with `added`, `updated` and `removed`');
+  }
+  const unexpected = Object.keys(changes).find((key) => !DIFF_KEYS.includes(key));
+  if (unexpected) {
+    throw snapshotError(400, `Unexpected field "${unexpected}" in changes`);
+  }
+  let count = 0;
+  for (const key of DIFF_KEYS) {
+    if (changes[key] === undefined) continue;
+    if (!isObject(changes[key])) {
+      throw snapshotError(400, `changes.${key} must be an object keyed by record id`);
+    }
+    count += Object.keys(changes[key]).length;
+  }
+  if (count > MAX_DIFF_RECORDS) {
+    throw snapshotError(413, `Changes touch ${count} records, more than the ${MAX_DIFF_RECORDS} allowed at once`);
+  }
+
+  for (const [id, record] of Object.entries(changes.added ?? {})) {
+    validateRecord(record, id);
+  }
+  for (const [id, pair] of Object.entries(changes.updated ?? {})) {
+    if (Array.isArray(pair) && pair.length !== 2) {
+      throw snapshotError(400, `Update of ${id} must be a [from, to] pair`);
+    }
+    validateRecord(Array.isArray(pair) ? pair[1] : pair, id);
+  }
+  // Removed records only need their id: it starts with the record type
+  for (const id of Object.keys(changes.removed ?? {})) {
+    const typeName = id.slice(0, id.indexOf(':'));
+    if (!DOCUMENT_RECORD_TYPES.has(typeName)) {
+      throw snapshotError(400, `Cannot remove ${id}: not a drawing record`);
+    }
+  }
+}
+
+// Migrate a stored drawing's snapshot if it is out of date and write it back. The
+// revision is left alone: the content is unchanged, so clients at that revision stay valid, and
+// the write is skipped if someone saved in the meantime. Returns the drawing with the current
+// snapshot; throws a 422 error if the snapshot can't be migrated.
+export async function upgradeStoredDrawing(db, drawing) {
+  if (!isObject(drawing?.snapshot?.schema) || !needsMigration(drawing.snapshot)) return drawing;
+
+  const snapshot = migrateSnapshot(drawing.snapshot);
+  await db.replaceSnapshot(drawing.id, drawing.revision ?? 0, snapshot);
+  log.info('Migrated snapshot to the current tldraw schema', { drawingId: drawing.id });
+  return { ...drawing, snapshot };
+}
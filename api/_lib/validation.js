@@ -0,0 +1,36 @@
+// Checks on request bodies shared by the write endpoints. Record contents are checked against
+// the tldraw schema in snapshots.js; these cover the fields around them. Each throws an error
+// with a `status` for the handler to answer with.
+
+const MAX_ID_LENGTH = 256;
+// Diffs broadcast through /api/pusher-trigger; the Pusher transport tops out well below this
+export const BROADCAST_MAX_BYTES = 2 * 1024 * 1024;
+
+function requestError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+export function validateDrawingId(id) {
+  if (typeof id !== 'string' || !id || id.length > MAX_ID_LENGTH || /[\u0000-\u001f]/.test(id)) {
+    throw requestError(400, 'Drawing id must be a non-empty string of printable characters');
+  }
+  return id;
+}
+
+// Pusher socket ids look like "1234.5678"
+export function validateSocketId(socketId) {
+  if (socketId === undefined || socketId === null) return undefined;
+  if (typeof socketId !== 'string' || !/^\d+\.\d+$/.test(socketId)) {
+    throw requestError(400, 'Invalid socketId');
+  }
+  return socketId;
+}
+
+// Reject bodies over `maxBytes` by their Content-Length (the JSON parser enforces its own cap)
+export function assertBodySize(req, maxBytes) {
+  if (Number(req.headers?.['content-length']) > maxBytes) {
+    throw requestError(413, `Request body is larger than ${Math.round(maxBytes / 1024)} KB`);
+  }
+}
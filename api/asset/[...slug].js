@@ -1,30 +1 @@
-import { connectToDatabase, Asset } from '../_lib/db.js';
-
-// GET /api/asset/:id – serve asset (catch-all so Vercel reliably matches /api/asset/xxx)
-export default async function handler(req, res) {
-  if (req.method !== 'GET') {
-    res.setHeader('Allow', ['GET']);
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  const slug = req.query.slug;
-  const id = Array.isArray(slug) ? slug[0] : slug;
-  if (!id) {
-    return res.status(400).json({ error: 'Missing asset id' });
-  }
-
-  try {
-    await connectToDatabase();
-    const asset = await Asset.findOne({ id });
-    if (!asset) {
-      return res.status(404).json({ error: 'Asset not found' });
-    }
-
-    res.setHeader('Content-Type', asset.mimeType);
-    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
-    res.status(200).send(asset.data);
-  } catch (err) {
-    console.error('[API] Asset get error:', err);
-    res.status(500).json({ error: err.message });
-  }
-}
+export { default } from '../_lib/handlers/asset.js';
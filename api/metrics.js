@@ -0,0 +1 @@
+export { default } from './_lib/handlers/metrics.js';
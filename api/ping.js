@@ -1,10 +1 @@
-export default function handler(req, res) {
-  res.status(200).json({ 
-    status: 'ok', 
-    timestamp: new Date().toISOString(),
-    env: {
-      hasUri: !!process.env.MONGODB_URI,
-      nodeEnv: process.env.NODE_ENV
-    }
-  });
-}
+export { default } from './_lib/handlers/ping.js';
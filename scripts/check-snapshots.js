@@ -0,0 +1,62 @@
+import 'dotenv/config';
+import { connectToDatabase } from '../api/_lib/db.js';
+import { needsMigration, validateSnapshot } from '../api/_lib/snapshots.js';
+
+// npm run snapshots:check    – report drawings whose snapshot is invalid or needs migrating
+// npm run snapshots:upgrade  – also write migrated snapshots back (run after bumping tldraw)
+// Exits with 1 when any snapshot is invalid.
+
+const upgrade = process.argv.includes('--upgrade');
+const counts = { ok: 0, empty: 0, outdated: 0, upgraded: 0, skipped: 0, invalid: 0 };
+
+let db;
+try {
+  db = await connectToDatabase();
+  for await (const drawing of db.drawingSnapshots()) {
+    if (!drawing.snapshot) {
+      counts.empty += 1;
+      continue;
+    }
+
+    let snapshot;
+    let outdated;
+    try {
+      outdated = needsMigration(drawing.snapshot);
+      snapshot = validateSnapshot(drawing.snapshot);
+    } catch (err) {
+      counts.invalid += 1;
+      console.error(`invalid   ${drawing.id}: ${err.message}`);
+      continue;
+    }
+    if (!outdated) {
+      counts.ok += 1;
+      continue;
+    }
+
+    counts.outdated += 1;
+    if (!upgrade) {
+      console.log(`outdated  ${drawing.id}`);
+      continue;
+    }
+    // Leave the revision alone and skip drawings saved while we were migrating them
+    if (await db.replaceSnapshot(drawing.id, drawing.revision ?? 0, snapshot)) {
+      counts.upgraded += 1;
+      console.log(`upgraded  ${drawing.id}`);
+    } else {
+      counts.skipped += 1;
+      console.warn(`skipped   ${drawing.id}: saved while upgrading, it will be migrated on next read`);
+    }
+  }
+
+  console.log(
+    `${counts.ok} current, ${counts.outdated} outdated` +
+      (upgrade ? ` (${counts.upgraded} upgraded, ${counts.skipped} skipped)` : '') +
+      `, ${counts.invalid} invalid, ${counts.empty} without a snapshot`
+  );
+  if (counts.invalid > 0) process.exitCode = 1;
+} catch (err) {
+  console.error('Snapshot check failed:', err);
+  process.exitCode = 1;
+} finally {
+  await db?.close();
+}
@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import { connectToDatabase } from '../api/_lib/db.js';
+import { ASSET_GC_GRACE_HOURS, sweepOrphanedAssets } from '../api/_lib/assetGc.js';
+
+// npm run gc:assets -- [--dry-run] [--grace-hours=N]
+// Deletes assets no stored drawing references any more (see api/_lib/assetGc.js).
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const graceArg = args.find((arg) => arg.startsWith('--grace-hours='));
+const graceHours = graceArg ? Number(graceArg.split('=')[1]) : ASSET_GC_GRACE_HOURS;
+
+if (!Number.isFinite(graceHours) || graceHours < 0) {
+  console.error('--grace-hours must be a non-negative number');
+  process.exit(1);
+}
+
+let db;
+try {
+  db = await connectToDatabase();
+  const result = await sweepOrphanedAssets(db, { dryRun, graceHours });
+  for (const asset of result.orphaned) {
+    const updated = new Date(asset.updatedAt).toISOString();
+    console.log(`${dryRun ? 'would delete' : 'orphan'} ${asset.id} (drawing ${asset.drawingId ?? '-'}, ${asset.size ?? '?'} bytes, last used ${updated})`);
+  }
+  console.log(
+    `${result.referenced} referenced assets, ${result.orphaned.length} orphaned older than ${graceHours}h` +
+      (dryRun ? ' (dry run, nothing deleted)' : `, ${result.deleted} deleted, ${result.freedBytes} bytes freed`)
+  );
+} catch (err) {
+  console.error('Asset GC failed:', err);
+  process.exitCode = 1;
+} finally {
+  await db?.close();
+}
@@ -1,174 +1,260 @@
+// Load .env before the api/_lib modules below read their settings from process.env
+import 'dotenv/config';
 import express from 'express';
-import { randomUUID } from 'crypto';
-import mongoose from 'mongoose';
-import dotenv from 'dotenv';
+import { createServer } from 'http';
+import { Server as SocketIOServer } from 'socket.io';
 import cors from 'cors';
-import Pusher from 'pusher';
-
-dotenv.config();
+import { applyChangesToSnapshot, isEmptyChanges } from './api/_lib/diff.js';
+import { ACCESS_HEADER, TOKEN_HEADER, TOKENS_HEADER, authorizeDrawing } from './api/_lib/access.js';
+import { addChangeRelay, addResetRelay } from './api/_lib/broadcast.js';
+import { recordAutoCheckpoint } from './api/_lib/checkpoints.js';
+import { DB_DRIVER, connectToDatabase } from './api/_lib/db.js';
+import { REQUEST_ID_HEADER } from './api/_lib/instrument.js';
+import { createLogger } from './api/_lib/log.js';
+import { clientAddress, consumeRateLimit } from './api/_lib/rateLimit.js';
+import { REVISION_HEADER } from './api/_lib/revisions.js';
+import { upgradeStoredDrawing, validateChanges, validateSnapshot } from './api/_lib/snapshots.js';
+import assetHandler from './api/_lib/handlers/asset.js';
+import assetGcCronHandler from './api/_lib/handlers/assetGcCron.js';
+import drawingChangesHandler from './api/_lib/handlers/drawingChanges.js';
+import drawingCommentsHandler from './api/_lib/handlers/drawingComments.js';
+import drawingHandler from './api/_lib/handlers/drawing.js';
+import drawingItemHandler from './api/_lib/handlers/drawingItem.js';
+import drawingPageHandler from './api/_lib/handlers/drawingPage.js';
+import drawingPreviewHandler from './api/_lib/handlers/drawingPreview.js';
+import drawingRevisionsHandler from './api/_lib/handlers/drawingRevisions.js';
+import drawingShapesHandler from './api/_lib/handlers/drawingShapes.js';
+import drawingShareHandler from './api/_lib/handlers/drawingShare.js';
+import drawingsHandler from './api/_lib/handlers/drawings.js';
+import metricsHandler from './api/_lib/handlers/metrics.js';
+import pingHandler from './api/_lib/handlers/ping.js';
+import pusherAuthHandler from './api/_lib/handlers/pusherAuth.js';
+import pusherTriggerHandler from './api/_lib/handlers/pusherTrigger.js';
 
 const app = express();
-app.use(cors());
+app.use(cors({
+  exposedHeaders: [REVISION_HEADER, ACCESS_HEADER, REQUEST_ID_HEADER, 'ETag', 'Last-Modified'],
+  allowedHeaders: ['Content-Type', TOKEN_HEADER, TOKENS_HEADER, REQUEST_ID_HEADER, 'If-None-Match', 'If-Modified-Since'],
+}));
 app.use(express.json({ limit: '10mb' })); // Increase limit for snapshots
+app.use(express.urlencoded({ extended: false })); // pusher-js posts channel auth as a form
+
+const log = createLogger('server');
+const socketLog = createLogger('socket');
 
-const MONGODB_URI = process.env.MONGODB_URI;
 const PORT = process.env.PORT || 5000;
+const SOCKET_PERSIST_INTERVAL = 5000;
 
-// Pusher Setup
-const pusher = new Pusher({
-  appId: process.env.PUSHER_APP_ID,
-  key: process.env.VITE_PUSHER_KEY,
-  secret: process.env.PUSHER_SECRET,
-  cluster: process.env.VITE_PUSHER_CLUSTER,
-  useTLS: true,
-});
+connectToDatabase()
+  .then((db) => log.info('Connected to the database', { driver: db.driver }))
+  .catch((err) => log.error('Database connection failed', { driver: DB_DRIVER, err }));
 
-// MongoDB Schema
-const DrawingSchema = new mongoose.Schema({
-  id: { type: String, required: true, unique: true },
-  snapshot: { type: mongoose.Schema.Types.Mixed, required: true }
-}, { timestamps: true, strict: false });
-
-const Drawing = mongoose.models.Drawing || mongoose.model('Drawing', DrawingSchema);
-
-const AssetSchema = new mongoose.Schema({
-  id: { type: String, required: true, unique: true },
-  mimeType: { type: String, required: true },
-  data: { type: Buffer, required: true },
-}, { timestamps: true });
-const Asset = mongoose.models.Asset || mongoose.model('Asset', AssetSchema);
-
-// Connect to MongoDB
-mongoose.connect(MONGODB_URI)
-  .then(() => console.log('✅ Connected to MongoDB'))
-  .catch(err => console.error('❌ MongoDB Connection Error:', err));
-
-// Routes
-
-// GET /api/drawing
-app.get('/api/drawing', async (req, res) => {
-  const { id } = req.query;
-  const targetId = id || 'global-canvas';
-  
-  try {
-    const drawing = await Drawing.findOne({ id: targetId });
-    if (!drawing) {
-      return res.status(200).json(null);
-    }
-    res.status(200).json(drawing.snapshot);
-  } catch (err) {
-    console.error('GET /api/drawing Error:', err);
-    res.status(500).json({ error: err.message });
-  }
+// Routes are the same handlers the Vercel functions in api/ export. Vercel hands dynamic path
+// segments to them in req.query, so route params are merged in there too.
+function route(handler) {
+  return (req, res) => {
+    Object.defineProperty(req, 'query', { value: { ...req.query, ...req.params }, configurable: true, writable: true });
+    return handler(req, res);
+  };
+}
+
+app.all('/api/ping', route(pingHandler));
+app.all('/api/metrics', route(metricsHandler));
+app.all('/api/drawings', route(drawingsHandler));
+app.all('/api/drawings/:id', route(drawingItemHandler));
+app.all('/api/drawings/:id/share', route(drawingShareHandler));
+app.all('/api/drawing', route(drawingHandler));
+app.all('/api/drawing/:id/shapes', route(drawingShapesHandler));
+app.all('/api/drawing/:id/changes', route(drawingChangesHandler));
+app.all('/api/drawing/:id/comments', route(drawingCommentsHandler));
+app.all('/api/drawing/:id/comments/:threadId', route(drawingCommentsHandler));
+app.all('/api/drawing/:id/revisions', route(drawingRevisionsHandler));
+app.all('/api/drawing/:id/revisions/:revisionId', route(drawingRevisionsHandler));
+app.all('/api/drawing/:id/revisions/:revisionId/:action', route(drawingRevisionsHandler));
+app.all('/api/drawing/:id/preview.png', route(drawingPreviewHandler));
+app.all('/api/pusher-trigger', route(pusherTriggerHandler));
+app.all('/api/pusher-auth', route(pusherAuthHandler));
+app.all('/api/asset', route(assetHandler));
+app.all('/api/asset/:id', route(assetHandler));
+app.all('/api/cron/asset-gc', route(assetGcCronHandler));
+
+// The built app (npm run build), with Open Graph tags on drawing pages
+app.get('/d/:id', route(drawingPageHandler));
+app.use(express.static('dist'));
+app.get('/embed/:id', (req, res) => res.sendFile('index.html', { root: 'dist' }));
+app.get('/playback/:id', (req, res) => res.sendFile('index.html', { root: 'dist' }));
+
+// Socket.IO realtime sync (used by useSocketPersistence)
+// Each drawing is kept in memory while sockets are in its room; diffs are relayed to the
+// other sockets immediately and the snapshot is flushed to the database on an interval.
+const httpServer = createServer(app);
+const io = new SocketIOServer(httpServer, {
+  cors: { origin: '*' },
+  maxHttpBufferSize: 1e7,
 });
 
-// POST /api/drawing
-app.post('/api/drawing', async (req, res) => {
-  const { id, snapshot } = req.body;
-  const targetId = id || 'global-canvas';
+// drawingId -> { snapshot, revision, pending, dirty, ready }: `revision` is the stored revision the
+// snapshot is based on, `pending` the diffs applied to it since it was last saved
+const socketRooms = new Map();
 
-  if (!snapshot) {
-    return res.status(400).json({ error: 'Snapshot is required' });
+function getSocketRoom(drawingId) {
+  let room = socketRooms.get(drawingId);
+  if (!room) {
+    room = { snapshot: null, revision: 0, pending: [], dirty: false };
+    room.ready = connectToDatabase()
+      .then(async (db) => upgradeStoredDrawing(db, await db.findDrawing(drawingId)))
+      .then((drawing) => {
+        room.snapshot = drawing?.snapshot ?? null;
+        room.revision = drawing?.revision ?? 0;
+      });
+    // Let the next join retry if the initial load failed
+    room.ready.catch(() => socketRooms.delete(drawingId));
+    socketRooms.set(drawingId, room);
   }
+  return room;
+}
 
+// Save the room's snapshot if nobody has saved the drawing since the room's revision. Otherwise
+// (REST, Pusher or shapes API saves) rebuild it from the stored copy plus the room's unsaved
+// diffs, send that to the room's sockets and save on the next flush.
+async function persistSocketRoom(drawingId, room) {
+  if (!room.dirty || !room.snapshot) return;
+  room.dirty = false;
+  const pending = room.pending;
+  room.pending = [];
   try {
-    await Drawing.findOneAndUpdate(
-      { id: targetId },
-      { snapshot },
-      { upsert: true, new: true }
-    );
-    console.log(`💾 Saved snapshot for ${targetId}`);
-    res.status(200).json({ success: true });
+    const db = await connectToDatabase();
+    const result = await db.saveSnapshot(drawingId, room.snapshot, room.revision);
+    if (result.ok) {
+      room.revision = result.revision;
+      socketLog.info('Persisted snapshot', { drawingId, revision: result.revision });
+      await recordAutoCheckpoint(db, drawingId);
+      return;
+    }
+    const stored = await upgradeStoredDrawing(db, await db.findDrawing(drawingId));
+    room.pending = [...pending, ...room.pending];
+    room.dirty = true;
+    room.revision = stored?.revision ?? 0;
+    if (!stored?.snapshot) return;
+    room.snapshot = room.pending.reduce((snapshot, changes) => applyChangesToSnapshot(snapshot, changes), stored.snapshot);
+    socketLog.warn('Drawing was saved elsewhere, merged the room into it', { drawingId, revision: room.revision });
+    io.to(`drawing-${drawingId}`).emit('init-store', room.snapshot);
   } catch (err) {
-    console.error('POST /api/drawing Error:', err);
-    res.status(500).json({ error: err.message });
+    room.pending = [...pending, ...room.pending];
+    room.dirty = true;
+    socketLog.error('Persist failed', { drawingId, err });
   }
+}
+
+// Drop a socket's room once nobody is left in it, after saving it
+async function releaseSocketRoom(drawingId) {
+  const room = drawingId && socketRooms.get(drawingId);
+  if (!room) return;
+  const roomSize = () => io.sockets.adapter.rooms.get(`drawing-${drawingId}`)?.size ?? 0;
+  if (roomSize() > 0) return;
+  await persistSocketRoom(drawingId, room);
+  // Someone may have rejoined while we were saving
+  if (roomSize() === 0 && !room.dirty) socketRooms.delete(drawingId);
+}
+
+// Changes stored outside the socket rooms (e.g. the shapes API) must reach a live room too,
+// otherwise its next flush would overwrite them
+addChangeRelay((drawingId, changes) => {
+  const room = socketRooms.get(drawingId);
+  if (!room) return;
+  // Already stored: the room's next save sees the newer revision and merges
+  if (room.snapshot) room.snapshot = applyChangesToSnapshot(room.snapshot, changes);
+  io.to(`drawing-${drawingId}`).emit('sync-store', { changes });
 });
 
-// POST /api/pusher-trigger
-app.post('/api/pusher-trigger', async (req, res) => {
-  const { id, snapshot, changes, socketId } = req.body;
-  const targetId = id || 'global-canvas';
+// A restored revision replaces the room's snapshot; its sockets load it like on join
+addResetRelay((drawingId, snapshot) => {
+  const room = socketRooms.get(drawingId);
+  if (!room) return;
+  room.snapshot = snapshot;
+  room.pending = [];
+  room.dirty = false;
+  io.to(`drawing-${drawingId}`).emit('init-store', snapshot);
+});
 
-  try {
-    // 1. Persistence Fallback (if snapshot provided)
-    if (snapshot) {
-      await Drawing.findOneAndUpdate(
-        { id: targetId },
-        { snapshot },
-        { upsert: true }
-      );
-      console.log(`💾 [Pusher] Persisted snapshot for ${targetId}`);
-    }
+io.on('connection', (socket) => {
+  // Payload is { drawingId, token } (a bare drawing id is accepted for older clients)
+  socket.on('join-drawing', async (payload) => {
+    const { drawingId, token } = typeof payload === 'string' ? { drawingId: payload } : payload || {};
+    if (typeof drawingId !== 'string' || !drawingId) return;
+
+    try {
+      const auth = await authorizeDrawing(await connectToDatabase(), drawingId, token, 'view');
+      if (!auth.ok) {
+        socket.emit('sync-error', { error: auth.error });
+        return;
+      }
 
-    // 2. Broadcast Diff
-    if (changes) {
-      const pusherOptions = socketId ? { socket_id: socketId } : {};
-      try {
-        await pusher.trigger(`drawing-${targetId}`, 'drawing-diff', { changes }, pusherOptions);
-        console.log(`📡 [Pusher] Broadcasted diff for ${targetId}`);
-      } catch (pusherErr) {
-        if (pusherErr.status === 413 || pusherErr.message?.includes('too large')) {
-          console.warn(`⚠️ [Pusher] Payload too large for ${targetId}. Triggering full sync request.`);
-          // Fallback: Tell clients to fetch full snapshot from DB
-          await pusher.trigger(`drawing-${targetId}`, 'drawing-sync-request', {}, pusherOptions);
-        } else {
-          throw pusherErr;
-        }
+      const previousId = socket.data.drawingId;
+      if (previousId && previousId !== drawingId) {
+        socket.leave(`drawing-${previousId}`);
+        releaseSocketRoom(previousId);
       }
+      socket.data.drawingId = drawingId;
+      socket.data.access = auth.access;
+      socket.join(`drawing-${drawingId}`);
+
+      const room = getSocketRoom(drawingId);
+      await room.ready;
+      socket.emit('init-store', room.snapshot);
+      socketLog.info('Joined drawing', { socketId: socket.id, drawingId });
+    } catch (err) {
+      socketLog.error('Load failed', { socketId: socket.id, drawingId, err });
+      socket.emit('sync-error', { error: err.message });
     }
+  });
 
-    res.status(200).json({ success: true });
-  } catch (err) {
-    console.error('POST /api/pusher-trigger Error:', err);
-    res.status(500).json({ error: err.message });
-  }
-});
+  // Seed from the first client when the drawing does not exist yet
+  socket.on('init-store', (snapshot) => {
+    const room = socketRooms.get(socket.data.drawingId);
+    if (!room || room.snapshot || socket.data.access !== 'edit') return;
+    try {
+      room.snapshot = validateSnapshot(snapshot);
+    } catch (err) {
+      socketLog.warn('Rejected initial snapshot', { socketId: socket.id, drawingId: socket.data.drawingId, err });
+      return;
+    }
+    room.dirty = true;
+  });
 
-// POST /api/asset – upload image for cross-tab sync
-app.post('/api/asset', async (req, res) => {
-  const { data: base64, mimeType } = req.body || {};
-  if (!base64 || !mimeType) {
-    return res.status(400).json({ error: 'Missing data or mimeType' });
-  }
-  try {
-    const id = randomUUID();
-    await Asset.create({ id, mimeType, data: Buffer.from(base64, 'base64') });
-    res.status(200).json({ id, src: `/api/asset?id=${id}` });
-  } catch (err) {
-    console.error('POST /api/asset Error:', err);
-    res.status(500).json({ error: err.message });
-  }
-});
+  socket.on('update-store', ({ changes } = {}) => {
+    const drawingId = socket.data.drawingId;
+    const room = socketRooms.get(drawingId);
+    if (!room || isEmptyChanges(changes) || socket.data.access !== 'edit') return;
+    // Same limits as /api/pusher-trigger; the sender gets its diff back to resend later
+    const limited = consumeRateLimit('broadcast', clientAddress(socket.request), drawingId);
+    if (limited) {
+      socket.emit('rate-limited', { changes, error: limited.error, retryAfter: limited.retryAfter });
+      return;
+    }
+    try {
+      validateChanges(changes);
+    } catch (err) {
+      socketLog.warn('Rejected diff', { socketId: socket.id, drawingId, err });
+      return;
+    }
+    if (room.snapshot) {
+      room.snapshot = applyChangesToSnapshot(room.snapshot, changes);
+      room.pending.push(changes);
+      room.dirty = true;
+    }
+    socket.to(`drawing-${drawingId}`).emit('sync-store', { changes });
+  });
 
-// GET /api/asset?id=xxx or /api/asset/:id – serve asset so other tabs can load it
-app.get('/api/asset', async (req, res) => {
-  const id = req.query.id;
-  if (!id) return res.status(400).json({ error: 'Missing id' });
-  try {
-    const asset = await Asset.findOne({ id });
-    if (!asset) return res.status(404).json({ error: 'Asset not found' });
-    res.setHeader('Content-Type', asset.mimeType);
-    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
-    res.send(asset.data);
-  } catch (err) {
-    console.error('GET /api/asset Error:', err);
-    res.status(500).json({ error: err.message });
-  }
+  socket.on('disconnect', () => releaseSocketRoom(socket.data.drawingId));
 });
-app.get('/api/asset/:id', async (req, res) => {
-  try {
-    const asset = await Asset.findOne({ id: req.params.id });
-    if (!asset) return res.status(404).json({ error: 'Asset not found' });
-    res.setHeader('Content-Type', asset.mimeType);
-    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
-    res.send(asset.data);
-  } catch (err) {
-    console.error('GET /api/asset Error:', err);
-    res.status(500).json({ error: err.message });
+
+setInterval(() => {
+  for (const [drawingId, room] of socketRooms) {
+    persistSocketRoom(drawingId, room);
   }
-});
+}, SOCKET_PERSIST_INTERVAL);
 
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on http://localhost:${PORT}`);
+httpServer.listen(PORT, () => {
+  log.info('Server running', { url: `http://localhost:${PORT}` });
 });
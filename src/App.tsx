@@ -1,7 +1,21 @@
-import { Tldraw, useEditor } from 'tldraw'
-import { useEffect, useRef } from 'react'
+import { Tldraw, useEditor, type Editor, type TLComponents } from 'tldraw'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import 'tldraw/tldraw.css'
 import { usePusherPersistence } from './hooks/usePusherPersistence'
+import { useComments } from './hooks/useComments'
+import { useRoute } from './hooks/useRoute'
+import { DrawingList } from './components/DrawingList'
+import { BoardContext, type BoardContextValue } from './components/BoardContext'
+import { MemberList } from './components/MemberList'
+import { ShareMenu } from './components/ShareMenu'
+import { SyncStatusBadge } from './components/SyncStatusBadge'
+import { CommentButton, CommentsOverlay } from './components/CommentsOverlay'
+import { BoardMainMenu, QueuedImport } from './components/BoardMainMenu'
+import { HistoryPanel } from './components/HistoryPanel'
+import { PreviewUploader } from './components/PreviewUploader'
+import { EmbedBoard } from './components/EmbedBoard'
+import { PlaybackBoard } from './components/PlaybackBoard'
+import { getStoredToken, storeToken } from './lib/shareTokens'
 
 // ────────────────────────────────────────────────
 // Throttle utility
@@ -124,9 +138,47 @@ function DynamicFaviconUpdater() {
 	return null
 }
 // ────────────────────────────────────────────────
-export default function App() {
-	const { store, loadingState } = usePusherPersistence()
+// Top-right panel: sync status, who's here, comments + share links
+function BoardSharePanel() {
+	return (
+		<div style={{ display: 'flex', alignItems: 'center' }}>
+			<SyncStatusBadge />
+			<MemberList />
+			<CommentButton />
+			<ShareMenu />
+		</div>
+	)
+}
+// Defined once so Tldraw doesn't remount its UI on every render
+const tldrawComponents: TLComponents = {
+	SharePanel: BoardSharePanel,
+	MainMenu: BoardMainMenu,
+	InFrontOfTheCanvas: CommentsOverlay,
+}
+// ────────────────────────────────────────────────
+function DrawingBoard({ drawingId, token }: { drawingId: string; token?: string }) {
+	const { store, loadingState, members, access, getToken, syncStatus, retryNow, onChannelEvent, getSocketId } =
+		usePusherPersistence(drawingId, token)
+	const comments = useComments(drawingId, { getToken, getSocketId, onChannelEvent, connection: syncStatus.connection })
+	const [placingComment, setPlacingComment] = useState(false)
+	const [historyOpen, setHistoryOpen] = useState(false)
 	const licenseKey = import.meta.env.VITE_TLDRAW_LICENSE_KEY as string | undefined
+	const board = useMemo<BoardContextValue>(
+		() => ({
+			drawingId,
+			access,
+			members,
+			getToken,
+			syncStatus,
+			retryNow,
+			comments,
+			placingComment,
+			setPlacingComment,
+			historyOpen,
+			setHistoryOpen,
+		}),
+		[drawingId, access, members, getToken, syncStatus, retryNow, comments, placingComment, historyOpen]
+	)
 
 	if (loadingState.status === 'loading') {
 		return (
@@ -160,14 +212,45 @@ export default function App() {
 				background: '#f8f9fa',
 			}}
 		>
-			<Tldraw
-				store={store}
-				autoFocus
-				licenseKey={licenseKey}
-			>
-				<DynamicTitleUpdater />
-				<DynamicFaviconUpdater />
-			</Tldraw>
+			<BoardContext.Provider value={board}>
+				<Tldraw
+					store={store}
+					autoFocus
+					licenseKey={licenseKey}
+					components={tldrawComponents}
+					onMount={(editor: Editor) => {
+						// View-only share links: the server rejects writes, the UI shouldn't offer them
+						editor.updateInstanceState({ isReadonly: access === 'view' })
+					}}
+				>
+					<DynamicTitleUpdater />
+					<DynamicFaviconUpdater />
+					<PreviewUploader />
+					<QueuedImport />
+					<HistoryPanel />
+				</Tldraw>
+			</BoardContext.Provider>
 		</div>
 	)
 }
+// ────────────────────────────────────────────────
+export default function App() {
+	const route = useRoute()
+	// A token in the URL wins and is remembered for the drawing list; otherwise reuse the stored one
+	useEffect(() => {
+		if (route.name === 'drawing' && route.token) storeToken(route.drawingId, route.token)
+	}, [route])
+	if (route.name === 'embed') {
+		return <EmbedBoard key={route.drawingId} drawingId={route.drawingId} token={route.token} page={route.page} fit={route.fit} />
+	}
+	if (route.name === 'playback') {
+		const token = route.token ?? getStoredToken(route.drawingId)
+		return <PlaybackBoard key={route.drawingId} drawingId={route.drawingId} token={token} />
+	}
+	if (route.name === 'drawing') {
+		const token = route.token ?? getStoredToken(route.drawingId)
+		// Keyed so switching drawings gets a fresh store and subscription
+		return <DrawingBoard key={route.drawingId} drawingId={route.drawingId} token={token} />
+	}
+	return <DrawingList />
+}
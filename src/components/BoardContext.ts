@@ -0,0 +1,57 @@
+import { createContext, useContext } from 'react'
+import type { CommentAnchor, CommentThread } from '../lib/comments'
+import type { DrawingAccess } from '../lib/drawingApi'
+
+export interface BoardMember {
+	id: string
+	name: string
+	color: string | null
+}
+
+export interface SyncStatus {
+	// Pusher connection state ('connecting', 'connected', 'unavailable', ...), or 'disabled' without Pusher keys
+	connection: string
+	// Records edited locally that the server hasn't saved yet
+	pendingChanges: number
+	lastSavedAt: number | null
+	// Most recent failed save or broadcast, cleared by the next successful save
+	lastError: string | null
+	// When the next automatic retry runs
+	nextRetryAt: number | null
+}
+
+// Comment threads and their actions (see useComments); actions throw on failure
+export interface BoardComments {
+	threads: CommentThread[]
+	startThread: (anchor: CommentAnchor, body: string) => Promise<CommentThread>
+	reply: (threadId: string, body: string) => Promise<void>
+	setResolved: (threadId: string, resolved: boolean) => Promise<void>
+	removeThread: (threadId: string) => Promise<void>
+}
+
+export interface BoardContextValue {
+	drawingId: string
+	access: DrawingAccess
+	// Members of the drawing's Pusher presence channel
+	members: BoardMember[]
+	getToken: () => string | undefined
+	syncStatus: SyncStatus
+	// Retry failed saves and broadcasts (and reconnect Pusher) without waiting for the backoff
+	retryNow: () => void
+	comments: BoardComments
+	// While set, the next click on the canvas places a new comment thread
+	placingComment: boolean
+	setPlacingComment: (placing: boolean) => void
+	// Whether the history panel (checkpoints and restore) is shown
+	historyOpen: boolean
+	setHistoryOpen: (open: boolean) => void
+}
+
+// Board-level state for UI rendered inside tldraw's component slots, provided by DrawingBoard
+export const BoardContext = createContext<BoardContextValue | null>(null)
+
+export function useBoard() {
+	const board = useContext(BoardContext)
+	if (!board) throw new Error('useBoard must be used inside a BoardContext provider')
+	return board
+}
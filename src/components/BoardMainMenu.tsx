@@ -0,0 +1,100 @@
+import { useEffect } from 'react'
+import {
+	DefaultMainMenu,
+	DefaultMainMenuContent,
+	TldrawUiMenuGroup,
+	TldrawUiMenuItem,
+	useEditor,
+	useToasts,
+} from 'tldraw'
+import {
+	exportPagesZip,
+	exportTldrFile,
+	importTldrAsNewDrawing,
+	importTldrFile,
+	pickTldrFile,
+	takeQueuedImport,
+} from '../lib/tldrFile'
+import { navigate, playbackPath } from '../hooks/useRoute'
+import { useBoard } from './BoardContext'
+
+function useReportErrors() {
+	const { addToast } = useToasts()
+	return (title: string, task: () => Promise<void>) => async () => {
+		try {
+			await task()
+		} catch (err: any) {
+			console.error(`BoardMainMenu: ${title}:`, err)
+			addToast({ title, description: err.message, severity: 'error' })
+		}
+	}
+}
+
+// Main menu with .tldr import/export, version history and bulk page export above tldraw's default items
+export function BoardMainMenu() {
+	const editor = useEditor()
+	const { drawingId, access, getToken, setHistoryOpen } = useBoard()
+	const reportErrors = useReportErrors()
+
+	const importIntoBoard = reportErrors('Import failed', async () => {
+		const file = await pickTldrFile()
+		if (!file) return
+		if (!window.confirm('Replace everything on this board with the contents of the file?')) return
+		await importTldrFile(editor, file)
+	})
+	const importAsNew = reportErrors('Import failed', async () => {
+		const file = await pickTldrFile()
+		if (file) await importTldrAsNewDrawing(file)
+	})
+
+	return (
+		<DefaultMainMenu>
+			<TldrawUiMenuGroup id="board-file">
+				<TldrawUiMenuItem
+					id="export-tldr"
+					label="Export .tldr file"
+					readonlyOk
+					onSelect={reportErrors('Export failed', () => exportTldrFile(editor))}
+				/>
+				{access === 'edit' && (
+					<TldrawUiMenuItem id="import-tldr" label="Import .tldr into this drawing" onSelect={importIntoBoard} />
+				)}
+				<TldrawUiMenuItem id="import-tldr-new" label="Import .tldr as new drawing" readonlyOk onSelect={importAsNew} />
+				<TldrawUiMenuItem id="history" label="Version history" readonlyOk onSelect={() => setHistoryOpen(true)} />
+				<TldrawUiMenuItem
+					id="playback"
+					label="Play back changes"
+					readonlyOk
+					onSelect={() => navigate(playbackPath(drawingId, getToken()))}
+				/>
+				<TldrawUiMenuItem
+					id="export-pages-svg"
+					label="Export all pages as SVG (zip)"
+					readonlyOk
+					onSelect={reportErrors('Export failed', () => exportPagesZip(editor, 'svg'))}
+				/>
+				<TldrawUiMenuItem
+					id="export-pages-png"
+					label="Export all pages as PNG (zip)"
+					readonlyOk
+					onSelect={reportErrors('Export failed', () => exportPagesZip(editor, 'png'))}
+				/>
+			</TldrawUiMenuGroup>
+			<DefaultMainMenuContent />
+		</DefaultMainMenu>
+	)
+}
+
+// Imports the file queued by "Import .tldr as new drawing" once the new board has loaded
+export function QueuedImport() {
+	const editor = useEditor()
+	const { drawingId } = useBoard()
+	const reportErrors = useReportErrors()
+
+	useEffect(() => {
+		const file = takeQueuedImport(drawingId)
+		if (file) reportErrors('Import failed', () => importTldrFile(editor, file))()
+	}, [editor, drawingId])
+
+	return null
+}
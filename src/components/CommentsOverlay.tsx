@@ -0,0 +1,288 @@
+import { useEffect, useState, type PointerEvent } from 'react'
+import { stopEventPropagation, useEditor, useValue, type Editor, type TLShapeId } from 'tldraw'
+import type { CommentAnchor, CommentThread } from '../lib/comments'
+import { useBoard } from './BoardContext'
+
+const MARKER_SIZE = 24
+const POPOVER_WIDTH = 280
+
+const popoverStyle = {
+	position: 'absolute',
+	width: POPOVER_WIDTH,
+	maxHeight: 360,
+	overflowY: 'auto',
+	display: 'flex',
+	flexDirection: 'column',
+	gap: 8,
+	padding: 10,
+	background: '#fff',
+	borderRadius: 8,
+	boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+	fontFamily: 'sans-serif',
+	fontSize: 13,
+	pointerEvents: 'all',
+} as const
+
+// Where a thread's marker goes, in page coordinates: the top-right corner of its shape while the
+// shape is on the page, otherwise the stored point
+function anchorPoint(editor: Editor, anchor: CommentAnchor) {
+	const bounds = anchor.shapeId && editor.getShapePageBounds(anchor.shapeId as TLShapeId)
+	return bounds ? { x: bounds.maxX, y: bounds.minY } : { x: anchor.x, y: anchor.y }
+}
+
+function formatTime(iso: string) {
+	return new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+}
+
+function CommentForm({ placeholder, submitLabel, onSubmit, onCancel }: {
+	placeholder: string
+	submitLabel: string
+	onSubmit: (body: string) => Promise<void>
+	onCancel?: () => void
+}) {
+	const [body, setBody] = useState('')
+	const [isSending, setIsSending] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const submit = async () => {
+		if (!body.trim() || isSending) return
+		setIsSending(true)
+		setError(null)
+		try {
+			await onSubmit(body)
+			setBody('')
+		} catch (err: any) {
+			setError(err.message)
+		} finally {
+			setIsSending(false)
+		}
+	}
+
+	return (
+		<div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+			<textarea
+				autoFocus
+				rows={3}
+				value={body}
+				placeholder={placeholder}
+				onChange={(e) => setBody(e.target.value)}
+				onKeyDown={(e) => {
+					if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit()
+					if (e.key === 'Escape') onCancel?.()
+				}}
+				style={{ resize: 'vertical', fontFamily: 'inherit', fontSize: 13 }}
+			/>
+			{error && <span style={{ color: '#d93025', fontSize: 12 }}>{error}</span>}
+			<div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+				{onCancel && (
+					<button type="button" onClick={onCancel} style={{ cursor: 'pointer' }}>
+						Cancel
+					</button>
+				)}
+				<button type="button" onClick={submit} disabled={!body.trim() || isSending} style={{ cursor: 'pointer' }}>
+					{submitLabel}
+				</button>
+			</div>
+		</div>
+	)
+}
+
+function ThreadPopover({ thread, x, y, onClose }: { thread: CommentThread; x: number; y: number; onClose: () => void }) {
+	const { access, comments } = useBoard()
+	const [error, setError] = useState<string | null>(null)
+	const canEdit = access === 'edit'
+
+	const run = async (action: () => Promise<void>) => {
+		setError(null)
+		try {
+			await action()
+		} catch (err: any) {
+			setError(err.message)
+		}
+	}
+
+	return (
+		<div style={{ ...popoverStyle, left: x, top: y }} onPointerDown={stopEventPropagation} onWheel={stopEventPropagation}>
+			{thread.comments.map((comment) => (
+				<div key={comment.id}>
+					<div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+						<strong style={{ color: comment.author.color ?? undefined }}>{comment.author.name}</strong>
+						<span style={{ color: '#888', fontSize: 11 }}>{formatTime(comment.createdAt)}</span>
+					</div>
+					<div style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{comment.body}</div>
+				</div>
+			))}
+			{thread.resolved && (
+				<span style={{ color: '#188038', fontSize: 12 }}>
+					Resolved{thread.resolvedBy ? ` by ${thread.resolvedBy.name}` : ''}
+					{thread.resolvedAt ? `, ${formatTime(thread.resolvedAt)}` : ''}
+				</span>
+			)}
+			{canEdit && !thread.resolved && (
+				<CommentForm placeholder="Reply…" submitLabel="Reply" onSubmit={(body) => comments.reply(thread.id, body)} />
+			)}
+			{error && <span style={{ color: '#d93025', fontSize: 12 }}>{error}</span>}
+			<div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+				{canEdit && (
+					<>
+						<button
+							type="button"
+							onClick={() => confirm('Delete this thread?') && run(async () => {
+								await comments.removeThread(thread.id)
+								onClose()
+							})}
+							style={{ cursor: 'pointer' }}
+						>
+							Delete
+						</button>
+						<button type="button" onClick={() => run(() => comments.setResolved(thread.id, !thread.resolved))} style={{ cursor: 'pointer' }}>
+							{thread.resolved ? 'Reopen' : 'Resolve'}
+						</button>
+					</>
+				)}
+				<button type="button" onClick={onClose} style={{ cursor: 'pointer' }}>
+					Close
+				</button>
+			</div>
+		</div>
+	)
+}
+
+// Comment markers over the canvas (tldraw's InFrontOfTheCanvas slot), the open thread, and the
+// click-to-place layer while a new comment is being added
+export function CommentsOverlay() {
+	const editor = useEditor()
+	const { comments, placingComment, setPlacingComment } = useBoard()
+	const [openThreadId, setOpenThreadId] = useState<string | null>(null)
+	const [draft, setDraft] = useState<CommentAnchor | null>(null)
+
+	// Viewport positions of this page's markers, following the camera and anchored shapes
+	const markers = useValue(
+		'comment markers',
+		() => {
+			const pageId = editor.getCurrentPageId()
+			return comments.threads
+				.filter((thread) => thread.anchor.pageId === pageId)
+				.map((thread) => ({ thread, ...editor.pageToViewport(anchorPoint(editor, thread.anchor)) }))
+		},
+		[editor, comments.threads]
+	)
+	const draftPosition = useValue('comment draft', () => (draft ? editor.pageToViewport(anchorPoint(editor, draft)) : null), [editor, draft])
+
+	useEffect(() => {
+		if (!placingComment) return
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (e.key === 'Escape') setPlacingComment(false)
+		}
+		window.addEventListener('keydown', handleKeyDown)
+		return () => window.removeEventListener('keydown', handleKeyDown)
+	}, [placingComment, setPlacingComment])
+
+	// Pin to the shape under the pointer, if any, otherwise to the point itself
+	const placeComment = (e: PointerEvent) => {
+		stopEventPropagation(e)
+		const point = editor.screenToPage({ x: e.clientX, y: e.clientY })
+		const shape = editor.getShapeAtPoint(point, { hitInside: true })
+		const pageId = editor.getCurrentPageId()
+		const bounds = shape && editor.getShapePageBounds(shape)
+		setDraft(
+			shape && bounds
+				? { pageId, x: bounds.maxX, y: bounds.minY, shapeId: shape.id }
+				: { pageId, x: point.x, y: point.y }
+		)
+		setOpenThreadId(null)
+		setPlacingComment(false)
+	}
+
+	const openMarker = markers.find((marker) => marker.thread.id === openThreadId)
+
+	return (
+		<div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', overflow: 'hidden' }}>
+			{placingComment && (
+				<div
+					title="Click to place a comment (Esc to cancel)"
+					onPointerDown={placeComment}
+					style={{ position: 'absolute', inset: 0, cursor: 'crosshair', pointerEvents: 'all' }}
+				/>
+			)}
+			{markers.map(({ thread, x, y }) => (
+				<button
+					key={thread.id}
+					type="button"
+					title={`${thread.comments[0]?.author.name}: ${thread.comments[0]?.body}`}
+					onPointerDown={stopEventPropagation}
+					onClick={() => {
+						setDraft(null)
+						setOpenThreadId(thread.id === openThreadId ? null : thread.id)
+					}}
+					style={{
+						position: 'absolute',
+						left: x - MARKER_SIZE / 2,
+						top: y - MARKER_SIZE / 2,
+						width: MARKER_SIZE,
+						height: MARKER_SIZE,
+						padding: 0,
+						borderRadius: '50% 50% 50% 0',
+						border: '2px solid #fff',
+						background: thread.comments[0]?.author.color ?? '#4465e9',
+						color: '#fff',
+						fontSize: 11,
+						fontWeight: 700,
+						cursor: 'pointer',
+						opacity: thread.resolved ? 0.4 : 1,
+						boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+						pointerEvents: 'all',
+					}}
+				>
+					{thread.comments.length}
+				</button>
+			))}
+			{openMarker && (
+				<ThreadPopover
+					thread={openMarker.thread}
+					x={openMarker.x + MARKER_SIZE / 2 + 4}
+					y={openMarker.y - MARKER_SIZE / 2}
+					onClose={() => setOpenThreadId(null)}
+				/>
+			)}
+			{draft && draftPosition && (
+				<div
+					style={{ ...popoverStyle, left: draftPosition.x + 4, top: draftPosition.y }}
+					onPointerDown={stopEventPropagation}
+					onWheel={stopEventPropagation}
+				>
+					<CommentForm
+						placeholder="Add a comment…"
+						submitLabel="Comment"
+						onSubmit={async (body) => {
+							const thread = await comments.startThread(draft, body)
+							setDraft(null)
+							setOpenThreadId(thread.id)
+						}}
+						onCancel={() => setDraft(null)}
+					/>
+				</div>
+			)}
+		</div>
+	)
+}
+
+// Share-panel button that starts placing a comment; shows the number of open threads
+export function CommentButton() {
+	const { access, comments, placingComment, setPlacingComment } = useBoard()
+	const open = comments.threads.filter((thread) => !thread.resolved).length
+	if (access !== 'edit' && comments.threads.length === 0) return null
+	return (
+		<div style={{ padding: '6px 8px', pointerEvents: 'all' }}>
+			<button
+				type="button"
+				disabled={access !== 'edit'}
+				onClick={() => setPlacingComment(!placingComment)}
+				title={access === 'edit' ? 'Click, then click the canvas to add a comment' : 'Comments'}
+				style={{ cursor: 'pointer', fontWeight: placingComment ? 700 : undefined }}
+			>
+				{placingComment ? 'Click to comment…' : `Comments${open ? ` (${open})` : ''}`}
+			</button>
+		</div>
+	)
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from 'react'
+import { drawingPath, navigate } from '../hooks/useRoute'
+import { TOKENS_HEADER, createDrawing, previewPath, readError, tokenHeaders } from '../lib/drawingApi'
+import { forgetToken, getStoredToken, getStoredTokens, storeToken } from '../lib/shareTokens'
+import { importTldrAsNewDrawing, pickTldrFile } from '../lib/tldrFile'
+
+export interface DrawingSummary {
+	id: string
+	name: string
+	createdAt: string
+	updatedAt: string
+}
+
+// Landing page: lists the drawings opened in this browser and lets the user create, import, rename or delete them
+export function DrawingList() {
+	const [drawings, setDrawings] = useState<DrawingSummary[] | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	// Drawings whose thumbnail failed to load (none uploaded yet, or no token for it)
+	const [missingPreviews, setMissingPreviews] = useState<Set<string>>(() => new Set())
+
+	const refresh = useCallback(async () => {
+		try {
+			// The server only lists drawings we have a token for
+			const res = await fetch('/api/drawings', { headers: { [TOKENS_HEADER]: JSON.stringify(getStoredTokens()) } })
+			if (!res.ok) throw new Error(await readError(res))
+			setDrawings(await res.json())
+			setError(null)
+		} catch (err: any) {
+			console.error('DrawingList: Failed to load drawings:', err)
+			setError(err.message)
+		}
+	}, [])
+
+	useEffect(() => {
+		document.title = 'dessimbol'
+		refresh()
+	}, [refresh])
+
+	const newDrawing = async () => {
+		const name = window.prompt('Name for the new drawing', 'Untitled drawing')
+		if (name === null) return
+		try {
+			const drawing = await createDrawing(name)
+			storeToken(drawing.id, drawing.editToken)
+			navigate(drawingPath(drawing.id, drawing.editToken))
+		} catch (err: any) {
+			console.error('DrawingList: Failed to create drawing:', err)
+			setError(err.message)
+		}
+	}
+
+	const importDrawing = async () => {
+		const file = await pickTldrFile()
+		if (!file) return
+		try {
+			await importTldrAsNewDrawing(file)
+		} catch (err: any) {
+			console.error('DrawingList: Failed to import drawing:', err)
+			setError(err.message)
+		}
+	}
+
+	const renameDrawing = async (drawing: DrawingSummary) => {
+		const name = window.prompt('Rename drawing', drawing.name)
+		if (!name?.trim() || name === drawing.name) return
+		try {
+			const res = await fetch(`/api/drawings/${encodeURIComponent(drawing.id)}`, {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/json', ...tokenHeaders(getStoredToken(drawing.id)) },
+				body: JSON.stringify({ name }),
+			})
+			if (!res.ok) throw new Error(await readError(res))
+			await refresh()
+		} catch (err: any) {
+			console.error('DrawingList: Failed to rename drawing:', err)
+			setError(err.message)
+		}
+	}
+
+	const deleteDrawing = async (drawing: DrawingSummary) => {
+		if (!window.confirm(`Delete "${drawing.name}"? This cannot be undone.`)) return
+		try {
+			const res = await fetch(`/api/drawings/${encodeURIComponent(drawing.id)}`, {
+				method: 'DELETE',
+				headers: tokenHeaders(getStoredToken(drawing.id)),
+			})
+			if (!res.ok) throw new Error(await readError(res))
+			forgetToken(drawing.id)
+			await refresh()
+		} catch (err: any) {
+			console.error('DrawingList: Failed to delete drawing:', err)
+			setError(err.message)
+		}
+	}
+
+	return (
+		<div style={{ maxWidth: 720, margin: '0 auto', padding: '48px 24px', fontFamily: 'sans-serif' }}>
+			<div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
+				<h1 style={{ margin: 0, fontSize: 24 }}>Drawings</h1>
+				<div style={{ display: 'flex', gap: 8 }}>
+					<button type="button" onClick={importDrawing} style={{ padding: '8px 16px', cursor: 'pointer' }}>
+						Import .tldr
+					</button>
+					<button type="button" onClick={newDrawing} style={{ padding: '8px 16px', cursor: 'pointer' }}>
+						New drawing
+					</button>
+				</div>
+			</div>
+			{error && <p style={{ color: '#c00', marginBottom: 16 }}>{error}</p>}
+			{drawings === null ? (
+				!error && <p style={{ color: '#666' }}>Loading drawings...</p>
+			) : drawings.length === 0 ? (
+				<p style={{ color: '#666' }}>No drawings yet. Create one to get started.</p>
+			) : (
+				<ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+					{drawings.map((drawing) => (
+						<li
+							key={drawing.id}
+							style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '12px 0', borderBottom: '1px solid #eee' }}
+						>
+							<a
+								href={drawingPath(drawing.id)}
+								onClick={(e) => {
+									e.preventDefault()
+									navigate(drawingPath(drawing.id))
+								}}
+								style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 12, color: 'inherit', textDecoration: 'none' }}
+							>
+								<div style={{ width: 96, height: 50, flexShrink: 0, borderRadius: 4, background: '#f1f3f5', overflow: 'hidden' }}>
+									{!missingPreviews.has(drawing.id) && (
+										<img
+											src={previewPath(drawing.id, getStoredToken(drawing.id))}
+											alt=""
+											loading="lazy"
+											onError={() => setMissingPreviews((missing) => new Set(missing).add(drawing.id))}
+											style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+										/>
+									)}
+								</div>
+								<div>
+									<div style={{ fontWeight: 600 }}>{drawing.name}</div>
+									<div style={{ fontSize: 12, color: '#666' }}>
+										Updated {new Date(drawing.updatedAt).toLocaleString()}
+									</div>
+								</div>
+							</a>
+							<button type="button" onClick={() => renameDrawing(drawing)} style={{ cursor: 'pointer' }}>
+								Rename
+							</button>
+							<button type="button" onClick={() => deleteDrawing(drawing)} style={{ cursor: 'pointer' }}>
+								Delete
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,148 @@
+import { react, Tldraw, useEditor, type Editor, type TLExportType, type TLPage } from 'tldraw'
+import { useEffect } from 'react'
+import { usePusherPersistence } from '../hooks/usePusherPersistence'
+
+// postMessage API between an embedded board and the page hosting its iframe. Every message is an
+// object whose `type` starts with MESSAGE_PREFIX; replies go back to the window and origin that
+// sent the request, and carry its `requestId`.
+const MESSAGE_PREFIX = 'dessimbol:'
+const EXPORT_FORMATS: readonly TLExportType[] = ['png', 'svg', 'jpeg', 'webp']
+const CAMERA_ANIMATION = { duration: 300 }
+
+type EmbedRequest =
+	| { type: 'dessimbol:set-page'; requestId?: string; page: string }
+	| { type: 'dessimbol:set-camera'; requestId?: string; x: number; y: number; z?: number; animate?: boolean }
+	| { type: 'dessimbol:zoom-to-fit'; requestId?: string; animate?: boolean }
+	| { type: 'dessimbol:export-image'; requestId?: string; format?: TLExportType; background?: boolean; scale?: number }
+
+function findPage(editor: Editor, page: string): TLPage | undefined {
+	return editor.getPages().find((p) => p.id === page || p.name === page)
+}
+
+function describePages(editor: Editor) {
+	return {
+		pages: editor.getPages().map((page) => ({ id: page.id, name: page.name })),
+		currentPageId: editor.getCurrentPageId(),
+	}
+}
+
+// Current page as an image Blob
+async function exportImage(editor: Editor, request: Extract<EmbedRequest, { type: 'dessimbol:export-image' }>) {
+	const format = request.format ?? 'png'
+	if (!EXPORT_FORMATS.includes(format)) throw new Error(`Unsupported format "${format}"`)
+	const shapeIds = [...editor.getCurrentPageShapeIds()]
+	if (shapeIds.length === 0) throw new Error('The page is empty')
+	const { blob, width, height } = await editor.toImage(shapeIds, {
+		format,
+		background: request.background ?? true,
+		scale: typeof request.scale === 'number' && request.scale > 0 ? request.scale : 1,
+		padding: 32,
+	})
+	return { blob, mimeType: blob.type, width, height }
+}
+
+// Runs a host request; resolves with the reply's extra fields
+async function handleRequest(editor: Editor, request: EmbedRequest) {
+	switch (request.type) {
+		case 'dessimbol:set-page': {
+			const page = findPage(editor, request.page)
+			if (!page) throw new Error(`No page "${request.page}"`)
+			editor.setCurrentPage(page.id)
+			return { pageId: page.id }
+		}
+		case 'dessimbol:set-camera': {
+			const { x, y, z = editor.getCamera().z } = request
+			if (![x, y, z].every(Number.isFinite) || z <= 0) throw new Error('Camera needs finite x, y and a positive z')
+			editor.setCamera({ x, y, z }, { animation: request.animate ? CAMERA_ANIMATION : undefined })
+			return { camera: editor.getCamera() }
+		}
+		case 'dessimbol:zoom-to-fit':
+			editor.zoomToFit({ animation: request.animate ? CAMERA_ANIMATION : undefined })
+			return { camera: editor.getCamera() }
+		case 'dessimbol:export-image':
+			return exportImage(editor, request)
+		default:
+			throw new Error(`Unknown message type "${(request as { type: string }).type}"`)
+	}
+}
+
+// Applies the route's page and zoom-to-fit, tells the host page when the board is ready or
+// changes page, and answers its requests
+function EmbedController({ page, fit }: { page?: string; fit: boolean }) {
+	const editor = useEditor()
+
+	useEffect(() => {
+		const host = window.parent !== window ? window.parent : null
+		const notifyHost = (message: Record<string, unknown>) => host?.postMessage(message, '*')
+
+		if (page) {
+			const target = findPage(editor, page)
+			if (target) editor.setCurrentPage(target.id)
+			else notifyHost({ type: `${MESSAGE_PREFIX}error`, error: `No page "${page}"` })
+		}
+		if (fit) editor.zoomToFit()
+		notifyHost({ type: `${MESSAGE_PREFIX}ready`, ...describePages(editor) })
+
+		let lastPageId = editor.getCurrentPageId()
+		const stopPageUpdates = react('embed page', () => {
+			const pageId = editor.getCurrentPageId()
+			if (pageId === lastPageId) return
+			lastPageId = pageId
+			if (fit) editor.zoomToFit()
+			notifyHost({ type: `${MESSAGE_PREFIX}page-changed`, ...describePages(editor) })
+		})
+
+		const handleMessage = async (event: MessageEvent) => {
+			const request = event.data as EmbedRequest | undefined
+			if (typeof request?.type !== 'string' || !request.type.startsWith(MESSAGE_PREFIX)) return
+			const source = event.source as Window | null
+			// Sandboxed iframes post from an opaque origin that can only be answered with '*'
+			const targetOrigin = event.origin === 'null' ? '*' : event.origin
+			const reply = (message: Record<string, unknown>) =>
+				source?.postMessage({ requestId: request.requestId, ...message }, { targetOrigin })
+			try {
+				const result = await handleRequest(editor, request)
+				reply({ type: `${request.type}:result`, ...result })
+			} catch (err: any) {
+				console.warn('Embed: Request failed:', request.type, err)
+				reply({ type: `${MESSAGE_PREFIX}error`, request: request.type, error: err.message })
+			}
+		}
+		window.addEventListener('message', handleMessage)
+		return () => {
+			stopPageUpdates()
+			window.removeEventListener('message', handleMessage)
+		}
+	}, [editor, page, fit])
+	return null
+}
+
+// /embed/:id – the board read-only and without tldraw's UI, following live updates. Unlike the
+// full board it leaves the document title and favicon to the host page and doesn't join presence.
+export function EmbedBoard({ drawingId, token, page, fit }: { drawingId: string; token?: string; page?: string; fit: boolean }) {
+	const { store, loadingState } = usePusherPersistence(drawingId, token, { readOnly: true })
+	const licenseKey = import.meta.env.VITE_TLDRAW_LICENSE_KEY as string | undefined
+
+	if (loadingState.status !== 'ready') {
+		return (
+			<div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', fontFamily: 'sans-serif', color: '#666' }}>
+				{loadingState.status === 'error' ? (loadingState.error ?? 'Could not load canvas') : 'Loading…'}
+			</div>
+		)
+	}
+
+	return (
+		<div style={{ position: 'fixed', inset: 0 }}>
+			<Tldraw
+				store={store}
+				hideUi
+				licenseKey={licenseKey}
+				onMount={(editor: Editor) => {
+					editor.updateInstanceState({ isReadonly: true })
+				}}
+			>
+				<EmbedController page={page} fit={fit} />
+			</Tldraw>
+		</div>
+	)
+}
@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { TldrawImage, stopEventPropagation, useEditor, type TLAsset, type TLAssetContext, type TLPageId, type TLRecord, type TLStoreSnapshot } from 'tldraw'
+import { createAssetStore } from '../hooks/usePusherPersistence'
+import {
+	createCheckpoint,
+	deleteDrawingRevision,
+	fetchDrawingRevision,
+	fetchDrawingRevisions,
+	restoreDrawingRevision,
+	type DrawingRevision,
+} from '../lib/drawingRevisions'
+import { useBoard } from './BoardContext'
+
+const PANEL_WIDTH = 300
+
+function formatTime(iso: string) {
+	return new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+}
+
+function revisionLabel(entry: DrawingRevision) {
+	return entry.name ?? 'Auto-save'
+}
+
+// TldrawImage takes no asset store, so asset URLs are resolved up front (adding the share token
+// that /api/asset needs)
+function withResolvedAssets(snapshot: TLStoreSnapshot, drawingId: string, getToken: () => string | undefined): TLStoreSnapshot {
+	const assets = createAssetStore(drawingId, getToken)
+	// The preview is an export, so it wants the original files
+	const context: TLAssetContext = {
+		screenScale: 1,
+		steppedScreenScale: 1,
+		dpr: window.devicePixelRatio,
+		networkEffectiveType: null,
+		shouldResolveToOriginal: true,
+	}
+	const store: Record<string, TLRecord> = {}
+	for (const [id, record] of Object.entries(snapshot.store as Record<string, TLRecord>)) {
+		if (record.typeName !== 'asset') {
+			store[id] = record
+			continue
+		}
+		const src = assets.resolve?.(record as TLAsset, context)
+		store[id] = typeof src === 'string' ? ({ ...record, props: { ...record.props, src } } as TLRecord) : record
+	}
+	return { ...snapshot, store } as TLStoreSnapshot
+}
+
+// The selected revision, rendered on the page that is open in the editor when it has one
+function RevisionPreview({ snapshot: stored }: { snapshot: TLStoreSnapshot }) {
+	const { drawingId, getToken } = useBoard()
+	const snapshot = useMemo(() => withResolvedAssets(stored, drawingId, getToken), [stored, drawingId, getToken])
+	const editor = useEditor()
+	const currentPageId = editor.getCurrentPageId()
+	const pageId = (snapshot.store as Record<string, unknown>)[currentPageId] ? currentPageId : undefined
+	return (
+		<div style={{ height: 180, border: '1px solid #e0e0e0', borderRadius: 4, overflow: 'hidden', background: '#f8f9fa' }}>
+			<TldrawImage snapshot={snapshot} pageId={pageId as TLPageId | undefined} background={false} padding={8} />
+		</div>
+	)
+}
+
+// Auto and named checkpoints of the drawing, opened from the main menu: preview any of them,
+// name the current state, or restore an older one for everybody
+export function HistoryPanel() {
+	const { drawingId, access, getToken, syncStatus, historyOpen, setHistoryOpen } = useBoard()
+	const [revisions, setRevisions] = useState<DrawingRevision[] | null>(null)
+	const [selectedId, setSelectedId] = useState<string | null>(null)
+	const [preview, setPreview] = useState<TLStoreSnapshot | null>(null)
+	const [name, setName] = useState('')
+	const [isBusy, setIsBusy] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const canEdit = access === 'edit'
+
+	const load = useCallback(async () => {
+		try {
+			setRevisions(await fetchDrawingRevisions(drawingId, getToken()))
+		} catch (err: any) {
+			console.warn('History: Failed to load revisions:', err)
+			setError(err.message)
+		}
+	}, [drawingId, getToken])
+
+	useEffect(() => {
+		if (!historyOpen) return
+		setError(null)
+		load()
+	}, [historyOpen, load])
+
+	useEffect(() => {
+		setPreview(null)
+		if (!selectedId) return
+		let cancelled = false
+		fetchDrawingRevision(drawingId, selectedId, getToken())
+			.then((entry) => {
+				if (!cancelled) setPreview(entry.snapshot)
+			})
+			.catch((err) => {
+				if (!cancelled) setError(err.message)
+			})
+		return () => {
+			cancelled = true
+		}
+	}, [drawingId, selectedId, getToken])
+
+	if (!historyOpen) return null
+
+	const run = async (action: () => Promise<void>) => {
+		setIsBusy(true)
+		setError(null)
+		try {
+			await action()
+		} catch (err: any) {
+			setError(err.message)
+		} finally {
+			setIsBusy(false)
+		}
+	}
+
+	const saveCheckpoint = () =>
+		run(async () => {
+			const entry = await createCheckpoint(drawingId, name, getToken())
+			setName('')
+			setRevisions((current) => [entry, ...(current ?? [])])
+		})
+
+	const restore = (entry: DrawingRevision) => {
+		if (!window.confirm(`Restore "${revisionLabel(entry)}" from ${formatTime(entry.createdAt)} for everyone on this board?`)) return
+		run(async () => {
+			await restoreDrawingRevision(drawingId, entry.id, getToken())
+			// Connected clients, us included, reload on the server's sync request; without a live
+			// connection nothing would tell this tab
+			if (syncStatus.connection !== 'connected') window.location.reload()
+			setSelectedId(null)
+			await load()
+		})
+	}
+
+	const remove = (entry: DrawingRevision) => {
+		if (!window.confirm(`Delete "${revisionLabel(entry)}" from the history?`)) return
+		run(async () => {
+			await deleteDrawingRevision(drawingId, entry.id, getToken())
+			if (selectedId === entry.id) setSelectedId(null)
+			setRevisions((current) => current?.filter((r) => r.id !== entry.id) ?? null)
+		})
+	}
+
+	return (
+		<div
+			onPointerDown={stopEventPropagation}
+			onWheel={stopEventPropagation}
+			style={{
+				position: 'absolute',
+				top: 48,
+				right: 8,
+				bottom: 56,
+				width: PANEL_WIDTH,
+				zIndex: 'var(--layer-menus)',
+				display: 'flex',
+				flexDirection: 'column',
+				gap: 8,
+				padding: 10,
+				background: '#fff',
+				borderRadius: 8,
+				boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+				fontFamily: 'sans-serif',
+				fontSize: 13,
+				pointerEvents: 'all',
+			}}
+		>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+				<strong>History</strong>
+				<button type="button" onClick={() => setHistoryOpen(false)} style={{ cursor: 'pointer' }}>
+					Close
+				</button>
+			</div>
+			{canEdit && (
+				<div style={{ display: 'flex', gap: 4 }}>
+					<input
+						value={name}
+						placeholder="Name this version…"
+						maxLength={100}
+						onChange={(e) => setName(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === 'Enter' && name.trim()) saveCheckpoint()
+						}}
+						style={{ flex: 1, minWidth: 0, fontSize: 13 }}
+					/>
+					<button
+						type="button"
+						onClick={saveCheckpoint}
+						disabled={!name.trim() || isBusy || syncStatus.pendingChanges > 0}
+						title={syncStatus.pendingChanges > 0 ? 'Waiting for the latest changes to be saved' : undefined}
+						style={{ cursor: 'pointer' }}
+					>
+						Save
+					</button>
+				</div>
+			)}
+			{error && <span style={{ color: '#d93025', fontSize: 12 }}>{error}</span>}
+			<div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+				{revisions === null && <span style={{ color: '#888' }}>Loading…</span>}
+				{revisions?.length === 0 && <span style={{ color: '#888' }}>No saved versions yet.</span>}
+				{revisions?.map((entry) => {
+					const selected = entry.id === selectedId
+					return (
+						<div
+							key={entry.id}
+							style={{
+								display: 'flex',
+								flexDirection: 'column',
+								gap: 6,
+								padding: 6,
+								borderRadius: 4,
+								background: selected ? '#eef2fd' : undefined,
+							}}
+						>
+							<button
+								type="button"
+								onClick={() => setSelectedId(selected ? null : entry.id)}
+								style={{ display: 'flex', justifyContent: 'space-between', gap: 8, border: 'none', background: 'none', padding: 0, cursor: 'pointer', textAlign: 'left', font: 'inherit' }}
+							>
+								<span style={{ fontWeight: entry.kind === 'named' ? 700 : undefined, color: entry.kind === 'auto' ? '#555' : undefined }}>
+									{revisionLabel(entry)}
+								</span>
+								<span style={{ color: '#888', fontSize: 11, whiteSpace: 'nowrap' }}>{formatTime(entry.createdAt)}</span>
+							</button>
+							{selected && (
+								<>
+									{preview ? <RevisionPreview snapshot={preview} /> : <span style={{ color: '#888' }}>Loading preview…</span>}
+									{canEdit && (
+										<div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+											<button type="button" onClick={() => remove(entry)} disabled={isBusy} style={{ cursor: 'pointer' }}>
+												Delete
+											</button>
+											<button type="button" onClick={() => restore(entry)} disabled={isBusy} style={{ cursor: 'pointer' }}>
+												Restore
+											</button>
+										</div>
+									)}
+								</>
+							)}
+						</div>
+					)
+				})}
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,37 @@
+import { useBoard } from './BoardContext'
+
+// One avatar per collaborator connected to the board
+export function MemberList() {
+	const { members } = useBoard()
+	if (members.length === 0) return null
+	return (
+		<div
+			style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '6px 8px', pointerEvents: 'all' }}
+			title={members.map((member) => member.name).join(', ')}
+		>
+			{members.map((member) => (
+				<div
+					key={member.id}
+					title={member.name}
+					style={{
+						width: 24,
+						height: 24,
+						borderRadius: '50%',
+						background: member.color ?? '#888',
+						color: '#fff',
+						fontSize: 12,
+						fontWeight: 700,
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'center',
+						border: '2px solid #fff',
+						boxShadow: '0 0 0 1px rgba(0,0,0,0.1)',
+					}}
+				>
+					{member.name.charAt(0).toUpperCase() || '?'}
+				</div>
+			))}
+			<span style={{ marginLeft: 4, fontSize: 12, color: '#666' }}>{members.length} online</span>
+		</div>
+	)
+}
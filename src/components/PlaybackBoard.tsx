@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { createTLStore, defaultShapeUtils, Tldraw, type Editor, type TLStoreSnapshot } from 'tldraw'
+import { createAssetStore } from '../hooks/usePusherPersistence'
+import { drawingPath, navigate } from '../hooks/useRoute'
+import { loadPlayback, type Playback } from '../lib/playback'
+import { applyRemoteChanges, createEmptyDiff, diffStoreToSnapshot } from '../lib/recordDiff'
+
+// Pauses between logged diffs are shortened to this on the playback clock
+const MAX_GAP = 2000
+const TICK = 50
+const SPEEDS = [1, 2, 5, 10, 50]
+
+type LoadState = { status: 'loading' } | { status: 'error'; error: string } | { status: 'ready'; playback: Playback }
+
+function formatTime(iso: string) {
+	return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' })
+}
+
+// Playback-clock time of every entry: real time between diffs, with long pauses shortened
+function playbackTimes(playback: Playback) {
+	const times: number[] = []
+	let clock = 0
+	playback.entries.forEach((entry, i) => {
+		if (i > 0) {
+			const gap = Date.parse(entry.createdAt) - Date.parse(playback.entries[i - 1].createdAt)
+			clock += Math.min(Math.max(gap, 0), MAX_GAP)
+		}
+		times.push(clock)
+	})
+	return times
+}
+
+function PlaybackPlayer({ drawingId, token, playback }: { drawingId: string; token?: string; playback: Playback }) {
+	const { entries } = playback
+	const licenseKey = import.meta.env.VITE_TLDRAW_LICENSE_KEY as string | undefined
+	const store = useMemo(() => {
+		const store = createTLStore({ shapeUtils: defaultShapeUtils, assets: createAssetStore(drawingId, () => token) })
+		if (playback.base) store.loadSnapshot(playback.base)
+		return store
+	}, [drawingId, token, playback])
+	const times = useMemo(() => playbackTimes(playback), [playback])
+	// The document before the first entry, taken once the editor has filled in its defaults
+	const baselineRef = useRef<TLStoreSnapshot | null>(null)
+	// Number of entries applied to the store
+	const positionRef = useRef(0)
+	const [position, setPosition] = useState(0)
+	const [playing, setPlaying] = useState(false)
+	const [speed, setSpeed] = useState(5)
+
+	const seek = (target: number) => {
+		const from = positionRef.current
+		if (target === from || !baselineRef.current) return
+		const baseline = baselineRef.current
+		let skipped = 0
+		store.mergeRemoteChanges(() => {
+			// Going back replays from the start
+			if (target < from) applyRemoteChanges(store, diffStoreToSnapshot(store, baseline, createEmptyDiff()))
+			for (const entry of entries.slice(target < from ? 0 : from, target)) {
+				try {
+					applyRemoteChanges(store, entry.changes)
+				} catch (err) {
+					// e.g. records from before a tldraw upgrade
+					skipped++
+					console.warn('Playback: Skipped change', entry.seq, err)
+				}
+			}
+		})
+		if (skipped > 0) console.warn(`Playback: ${skipped} change(s) could not be applied`)
+		positionRef.current = target
+		setPosition(target)
+	}
+
+	useEffect(() => {
+		if (!playing) return
+		let clock = positionRef.current > 0 ? times[positionRef.current - 1] : 0
+		const interval = setInterval(() => {
+			clock += TICK * speed
+			let target = positionRef.current
+			while (target < entries.length && times[target] <= clock) target++
+			seek(target)
+			if (target >= entries.length) setPlaying(false)
+		}, TICK)
+		return () => clearInterval(interval)
+		// seek only reads refs, the store and the entries
+	}, [playing, speed, times, entries])
+
+	const current = position > 0 ? entries[position - 1] : null
+
+	return (
+		<div style={{ position: 'fixed', inset: 0 }}>
+			<Tldraw
+				store={store}
+				licenseKey={licenseKey}
+				onMount={(editor: Editor) => {
+					editor.updateInstanceState({ isReadonly: true })
+					baselineRef.current = editor.store.getStoreSnapshot('document')
+				}}
+			/>
+			<div
+				style={{
+					position: 'absolute',
+					left: '50%',
+					bottom: 72,
+					transform: 'translateX(-50%)',
+					width: 'min(640px, calc(100% - 16px))',
+					zIndex: 'var(--layer-menus)',
+					display: 'flex',
+					flexDirection: 'column',
+					gap: 6,
+					padding: 10,
+					background: '#fff',
+					borderRadius: 8,
+					boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+					fontFamily: 'sans-serif',
+					fontSize: 13,
+				}}
+			>
+				<div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+					<button
+						type="button"
+						disabled={entries.length === 0}
+						onClick={() => {
+							if (!playing && position >= entries.length) seek(0)
+							setPlaying(!playing)
+						}}
+						style={{ cursor: 'pointer', minWidth: 56 }}
+					>
+						{playing ? 'Pause' : 'Play'}
+					</button>
+					<input
+						type="range"
+						min={0}
+						max={entries.length}
+						value={position}
+						disabled={entries.length === 0}
+						onChange={(e) => {
+							setPlaying(false)
+							seek(Number(e.target.value))
+						}}
+						style={{ flex: 1 }}
+						aria-label="Playback position"
+					/>
+					<select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} aria-label="Playback speed">
+						{SPEEDS.map((s) => (
+							<option key={s} value={s}>
+								{s}×
+							</option>
+						))}
+					</select>
+					<button type="button" onClick={() => navigate(drawingPath(drawingId, token))} style={{ cursor: 'pointer' }}>
+						Back to board
+					</button>
+				</div>
+				<div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, color: '#666' }}>
+					<span>
+						{entries.length === 0
+							? 'No changes recorded yet'
+							: `Change ${position} of ${entries.length}${current ? ` · ${formatTime(current.createdAt)}` : ''}`}
+					</span>
+					{current && <span title="Pusher connection that sent this change">{current.clientId ?? 'server'}</span>}
+				</div>
+				{!playback.complete && (
+					<span style={{ color: '#f29900', fontSize: 12 }}>
+						Older history has expired: things not changed since may be missing or out of date.
+					</span>
+				)}
+			</div>
+		</div>
+	)
+}
+
+// /playback/:id – replays the drawing's change log into a read-only board, with a scrubber and
+// speed control
+export function PlaybackBoard({ drawingId, token }: { drawingId: string; token?: string }) {
+	const [state, setState] = useState<LoadState>({ status: 'loading' })
+
+	useEffect(() => {
+		let cancelled = false
+		loadPlayback(drawingId, token)
+			.then((playback) => {
+				if (!cancelled) setState({ status: 'ready', playback })
+			})
+			.catch((err) => {
+				console.error('Playback: Failed to load the change log:', err)
+				if (!cancelled) setState({ status: 'error', error: err.message })
+			})
+		return () => {
+			cancelled = true
+		}
+	}, [drawingId, token])
+
+	if (state.status !== 'ready') {
+		return (
+			<div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', fontFamily: 'sans-serif', color: '#666' }}>
+				{state.status === 'error' ? state.error : 'Loading history…'}
+			</div>
+		)
+	}
+	return <PlaybackPlayer drawingId={drawingId} token={token} playback={state.playback} />
+}
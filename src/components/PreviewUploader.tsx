@@ -0,0 +1,77 @@
+import { useEffect } from 'react'
+import { throttle, useEditor, type Editor } from 'tldraw'
+import { previewPath, tokenHeaders } from '../lib/drawingApi'
+import { useBoard } from './BoardContext'
+
+// Open Graph's recommended image size; the server accepts up to 2048px per side
+const PREVIEW_WIDTH = 1200
+const PREVIEW_HEIGHT = 630
+const PREVIEW_INTERVAL = 30000
+// Give images on the page a moment to load before the first render
+const INITIAL_DELAY = 5000
+
+// Render the current page into a letterboxed PREVIEW_WIDTH × PREVIEW_HEIGHT PNG
+async function renderPreview(editor: Editor) {
+	const shapeIds = [...editor.getCurrentPageShapeIds()]
+	const bounds = editor.getCurrentPageBounds()
+	if (shapeIds.length === 0 || !bounds) return null
+	const { blob } = await editor.toImage(shapeIds, {
+		format: 'png',
+		background: true,
+		darkMode: false,
+		padding: 32,
+		pixelRatio: 1,
+		scale: Math.min(1, PREVIEW_WIDTH / bounds.w, PREVIEW_HEIGHT / bounds.h),
+	})
+	const image = await createImageBitmap(blob)
+	const canvas = document.createElement('canvas')
+	canvas.width = PREVIEW_WIDTH
+	canvas.height = PREVIEW_HEIGHT
+	const ctx = canvas.getContext('2d')
+	if (!ctx) return null
+	const fit = Math.min(1, PREVIEW_WIDTH / image.width, PREVIEW_HEIGHT / image.height)
+	const width = image.width * fit
+	const height = image.height * fit
+	ctx.fillStyle = '#ffffff'
+	ctx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
+	ctx.drawImage(image, (PREVIEW_WIDTH - width) / 2, (PREVIEW_HEIGHT - height) / 2, width, height)
+	image.close()
+	return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+}
+
+// Keeps the drawing's thumbnail (/api/drawing/:id/preview.png) in step with edits, at most every
+// PREVIEW_INTERVAL. Only editors upload; view-only boards leave it alone.
+export function PreviewUploader() {
+	const editor = useEditor()
+	const { drawingId, access, getToken } = useBoard()
+	useEffect(() => {
+		if (access !== 'edit') return
+		let isUploading = false
+		const uploadPreview = throttle(async () => {
+			if (isUploading) return
+			isUploading = true
+			try {
+				const blob = await renderPreview(editor)
+				if (!blob) return
+				const res = await fetch(previewPath(drawingId), {
+					method: 'PUT',
+					headers: { 'Content-Type': 'image/png', ...tokenHeaders(getToken()) },
+					body: blob,
+				})
+				if (!res.ok) console.warn('PreviewUploader: Upload failed with status', res.status)
+			} catch (err) {
+				console.warn('PreviewUploader: Preview skipped:', err)
+			} finally {
+				isUploading = false
+			}
+		}, PREVIEW_INTERVAL)
+		const initialTimeout = setTimeout(uploadPreview, INITIAL_DELAY)
+		const unsubscribe = editor.store.listen(() => uploadPreview(), { source: 'user', scope: 'document' })
+		return () => {
+			clearTimeout(initialTimeout)
+			unsubscribe()
+			uploadPreview.cancel()
+		}
+	}, [editor, drawingId, access, getToken])
+	return null
+}
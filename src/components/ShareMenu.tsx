@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { tokenHeaders } from '../lib/drawingApi'
+import { drawingPath, embedPath } from '../hooks/useRoute'
+import { useBoard } from './BoardContext'
+
+// Copies edit / view-only share links; only editors can fetch the tokens
+export function ShareMenu() {
+	const { drawingId, access, getToken } = useBoard()
+	const [isOpen, setIsOpen] = useState(false)
+	const [message, setMessage] = useState<string | null>(null)
+
+	if (access !== 'edit') {
+		return <span style={{ padding: '6px 8px', fontSize: 12, color: '#666' }}>View only</span>
+	}
+
+	const copyLink = async (kind: 'edit' | 'view' | 'embed') => {
+		try {
+			const res = await fetch(`/api/drawings/${encodeURIComponent(drawingId)}/share`, {
+				headers: tokenHeaders(getToken()),
+			})
+			if (!res.ok) {
+				const err = await res.json().catch(() => ({}))
+				throw new Error((err as { error?: string }).error || `Request failed: ${res.status}`)
+			}
+			const { editToken, viewToken } = await res.json()
+			if (kind === 'embed') {
+				// Embeds are read-only, so they get the view token
+				const src = window.location.origin + embedPath(drawingId, viewToken)
+				await navigator.clipboard.writeText(`<iframe src="${src}" width="800" height="450" style="border: 0"></iframe>`)
+				setMessage('Embed code copied')
+				return
+			}
+			const url = window.location.origin + drawingPath(drawingId, kind === 'edit' ? editToken : viewToken)
+			await navigator.clipboard.writeText(url)
+			setMessage(kind === 'edit' ? 'Edit link copied' : 'View-only link copied')
+		} catch (err: any) {
+			console.error('ShareMenu: Failed to copy link:', err)
+			setMessage(err.message)
+		}
+	}
+
+	return (
+		<div style={{ position: 'relative', padding: '6px 8px', pointerEvents: 'all' }}>
+			<button type="button" onClick={() => setIsOpen((open) => !open)} style={{ cursor: 'pointer' }}>
+				Share
+			</button>
+			{isOpen && (
+				<div
+					style={{
+						position: 'absolute',
+						right: 8,
+						top: '100%',
+						display: 'flex',
+						flexDirection: 'column',
+						gap: 4,
+						padding: 8,
+						background: '#fff',
+						borderRadius: 8,
+						boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+						whiteSpace: 'nowrap',
+					}}
+				>
+					<button type="button" onClick={() => copyLink('edit')} style={{ cursor: 'pointer' }}>
+						Copy edit link
+					</button>
+					<button type="button" onClick={() => copyLink('view')} style={{ cursor: 'pointer' }}>
+						Copy view-only link
+					</button>
+					<button type="button" onClick={() => copyLink('embed')} style={{ cursor: 'pointer' }}>
+						Copy embed code
+					</button>
+					{message && <span style={{ fontSize: 12, color: '#666' }}>{message}</span>}
+				</div>
+			)}
+		</div>
+	)
+}
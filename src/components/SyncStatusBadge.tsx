@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { useBoard, type SyncStatus } from './BoardContext'
+
+type BadgeState = { label: string; color: string; canRetry: boolean }
+
+function describe(status: SyncStatus, canEdit: boolean, now: number): BadgeState {
+	const live = status.connection === 'connected' || status.connection === 'disabled'
+	if (canEdit && status.lastError && (status.pendingChanges > 0 || status.nextRetryAt)) {
+		const seconds = status.nextRetryAt ? Math.max(0, Math.ceil((status.nextRetryAt - now) / 1000)) : null
+		return { label: seconds === null ? 'Not saved' : `Not saved, retrying in ${seconds}s`, color: '#d93025', canRetry: true }
+	}
+	if (!live) {
+		const label = status.connection === 'connecting' || status.connection === 'initialized' ? 'Connecting…' : 'Offline'
+		return { label, color: '#f29900', canRetry: status.connection !== 'connecting' }
+	}
+	if (canEdit && status.pendingChanges > 0) return { label: 'Saving…', color: '#f29900', canRetry: false }
+	return { label: canEdit ? 'Saved' : 'Live', color: '#188038', canRetry: false }
+}
+
+function describeTitle(status: SyncStatus) {
+	const lines = [`Live sync: ${status.connection}`]
+	if (status.pendingChanges > 0) lines.push(`${status.pendingChanges} unsaved change${status.pendingChanges === 1 ? '' : 's'}`)
+	if (status.lastSavedAt) lines.push(`Last saved at ${new Date(status.lastSavedAt).toLocaleTimeString()}`)
+	if (status.lastError) lines.push(status.lastError)
+	return lines.join('\n')
+}
+
+// Save and connection state of the board, with a "retry now" action when something failed
+export function SyncStatusBadge() {
+	const { access, syncStatus, retryNow } = useBoard()
+	const [now, setNow] = useState(() => Date.now())
+
+	// Tick while a retry countdown is shown
+	useEffect(() => {
+		if (!syncStatus.nextRetryAt) return
+		setNow(Date.now())
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(interval)
+	}, [syncStatus.nextRetryAt])
+
+	const { label, color, canRetry } = describe(syncStatus, access === 'edit', now)
+	return (
+		<div
+			title={describeTitle(syncStatus)}
+			style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '6px 8px', fontSize: 12, color: '#666', pointerEvents: 'all' }}
+		>
+			<span style={{ width: 8, height: 8, borderRadius: '50%', background: color }} />
+			<span>{label}</span>
+			{canRetry && (
+				<button type="button" onClick={retryNow} style={{ cursor: 'pointer', fontSize: 12 }}>
+					Retry now
+				</button>
+			)}
+		</div>
+	)
+}
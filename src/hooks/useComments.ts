@@ -0,0 +1,89 @@
+import { getUserPreferences } from 'tldraw'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+	createCommentThread,
+	deleteCommentThread,
+	fetchCommentThreads,
+	replyToCommentThread,
+	resolveCommentThread,
+	type CommentAnchor,
+	type CommentAuthor,
+	type CommentThread,
+} from '../lib/comments'
+
+interface CommentsOptions {
+	getToken: () => string | undefined
+	getSocketId: () => string | undefined
+	onChannelEvent: (event: string, listener: (data: any) => void) => () => void
+	// Pusher connection state: the list is refetched on every (re)connect to catch missed events
+	connection: string
+}
+
+function currentAuthor(): CommentAuthor {
+	const { id, name, color } = getUserPreferences()
+	return { id, name: name || 'Anonymous', color: color ?? null }
+}
+
+function upsertThread(threads: CommentThread[], thread: CommentThread) {
+	const index = threads.findIndex((t) => t.id === thread.id)
+	if (index === -1) return [...threads, thread]
+	// Events and responses can arrive out of order; keep the newer copy
+	if (threads[index].updatedAt > thread.updatedAt) return threads
+	return threads.map((t, i) => (i === index ? thread : t))
+}
+
+// The drawing's comment threads, kept live through `comment-thread` / `comment-thread-deleted`
+// events on its Pusher channel. Actions throw on failure so the caller can show the error.
+export function useComments(drawingId: string, { getToken, getSocketId, onChannelEvent, connection }: CommentsOptions) {
+	const [threads, setThreads] = useState<CommentThread[]>([])
+
+	const load = useCallback(async () => {
+		try {
+			setThreads(await fetchCommentThreads(drawingId, getToken()))
+		} catch (err) {
+			console.warn('Comments: Failed to load threads:', err)
+		}
+	}, [drawingId, getToken])
+
+	// Once Pusher has connected (or given up), and again after every reconnect
+	useEffect(() => {
+		if (connection !== 'initialized' && connection !== 'connecting') load()
+	}, [load, connection])
+
+	useEffect(() => {
+		const stopThreads = onChannelEvent('comment-thread', (data: { thread?: CommentThread; id: string }) => {
+			// Threads too long for one event only come with their id
+			if (data.thread) setThreads((current) => upsertThread(current, data.thread!))
+			else load()
+		})
+		const stopDeletes = onChannelEvent('comment-thread-deleted', ({ id }: { id: string }) => {
+			setThreads((current) => current.filter((thread) => thread.id !== id))
+		})
+		return () => {
+			stopThreads()
+			stopDeletes()
+		}
+	}, [onChannelEvent, load])
+
+	return useMemo(() => {
+		const apply = (thread: CommentThread) => setThreads((current) => upsertThread(current, thread))
+		return {
+			threads,
+			async startThread(anchor: CommentAnchor, body: string) {
+				const thread = await createCommentThread(drawingId, getToken(), { anchor, body, author: currentAuthor(), socketId: getSocketId() })
+				apply(thread)
+				return thread
+			},
+			async reply(threadId: string, body: string) {
+				apply(await replyToCommentThread(drawingId, threadId, getToken(), { body, author: currentAuthor(), socketId: getSocketId() }))
+			},
+			async setResolved(threadId: string, resolved: boolean) {
+				apply(await resolveCommentThread(drawingId, threadId, getToken(), { resolved, author: currentAuthor(), socketId: getSocketId() }))
+			},
+			async removeThread(threadId: string) {
+				await deleteCommentThread(drawingId, threadId, getToken(), getSocketId())
+				setThreads((current) => current.filter((thread) => thread.id !== threadId))
+			},
+		}
+	}, [threads, drawingId, getToken, getSocketId])
+}
@@ -1,13 +1,31 @@
-import { createTLStore, defaultShapeUtils, throttle } from 'tldraw'
-import { useEffect, useState } from 'react'
-
-const DRAWING_ID = 'global-canvas'
-
-export function useMongoosePersistence() {
+import { createTLStore, defaultShapeUtils, throttle, type TLStoreSnapshot } from 'tldraw'
+import { useEffect, useRef, useState } from 'react'
+import { readRevision, tokenHeaders } from '../lib/drawingApi'
+import {
+	applyRemoteChanges,
+	createEmptyDiff,
+	diffStoreToSnapshot,
+	isDiffEmpty,
+	mergeDiffs,
+	withoutLocalChanges,
+	type TLRecordsDiff,
+} from '../lib/recordDiff'
+
+const POLL_INTERVAL = 5000
+
+// GET /api/drawing?since=<revision>: the records changed since then, or the whole snapshot when
+// the server can't tell
+type DrawingUpdate = { revision: number } & ({ changes: TLRecordsDiff } | { snapshot: TLStoreSnapshot | null })
+
+export function useMongoosePersistence(drawingId: string, token?: string) {
 	const [store] = useState(() => createTLStore({ shapeUtils: defaultShapeUtils }))
 	const [loadingState, setLoadingState] = useState<{ status: 'loading' | 'ready' | 'error'; error?: string }>({
 		status: 'loading',
 	})
+	// Server revision the store is based on, sent with saves so stale tabs can't overwrite newer work
+	const revisionRef = useRef(0)
+	// ETag of the server copy the store is based on; polls send it and get 304 while nothing changed
+	const etagRef = useRef<string | null>(null)
 
 	useEffect(() => {
 		let isCancelled = false
@@ -15,8 +33,10 @@ export function useMongoosePersistence() {
 		async function loadSnapshot() {
 			console.log('Persistence: Attempting to load initial snapshot...')
 			try {
-				const response = await fetch(`/api/drawing?id=${DRAWING_ID}`)
+				const response = await fetch(`/api/drawing?id=${encodeURIComponent(drawingId)}`, { headers: tokenHeaders(token) })
 				if (response.ok) {
+					revisionRef.current = readRevision(response)
+					etagRef.current = response.headers.get('ETag')
 					const snapshot = await response.json()
 					if (snapshot) {
 						console.log('Persistence: Initial snapshot loaded.')
@@ -41,7 +61,7 @@ export function useMongoosePersistence() {
 		return () => {
 			isCancelled = true
 		}
-	}, [store])
+	}, [store, drawingId, token])
 
 	useEffect(() => {
 		if (loadingState.status !== 'ready') {
@@ -51,74 +71,113 @@ export function useMongoosePersistence() {
 
 		console.log('Persistence: Setting up change listener...')
 
+		let isCancelled = false
+		// The poll being fetched, so a rejected save can wait for it instead of starting another
+		let pulling: Promise<void> | null = null
+		// Set when a rejected save is waiting for the store to catch up with the server
+		let resaveAfterPull = false
+		// Local edits not yet saved / in the save being sent; polls leave these records alone
+		let unsaved = createEmptyDiff()
+		let saving = createEmptyDiff()
+
+		// Bring the store up to date with the server: 304 while it hasn't changed, otherwise just
+		// the records changed since our revision, keeping our unsaved edits on top
+		function pullChanges() {
+			pulling ??= fetchChanges().finally(() => {
+				pulling = null
+			})
+			return pulling
+		}
+
+		async function fetchChanges() {
+			try {
+				const response = await fetch(
+					`/api/drawing?id=${encodeURIComponent(drawingId)}&since=${revisionRef.current}`,
+					{ headers: { ...tokenHeaders(token), ...(etagRef.current ? { 'If-None-Match': etagRef.current } : {}) } }
+				)
+				if (response.status === 304 || !response.ok) {
+					if (!response.ok) console.error('Persistence: Polling failed:', response.status)
+					return
+				}
+				const update: DrawingUpdate | null = await response.json()
+				// Nothing stored yet, or a copy we are already past
+				if (!update || isCancelled || update.revision <= revisionRef.current) return
+				const localChanges = mergeDiffs(saving, unsaved)
+				const changes =
+					'changes' in update
+						? withoutLocalChanges(update.changes, localChanges)
+						: update.snapshot && diffStoreToSnapshot(store, update.snapshot, localChanges)
+				if (changes && !isDiffEmpty(changes)) {
+					console.log('Persistence: Remote changes detected during polling. Syncing...')
+					applyRemoteChanges(store, changes)
+				}
+				revisionRef.current = update.revision
+				etagRef.current = response.headers.get('ETag')
+				if (resaveAfterPull) {
+					resaveAfterPull = false
+					saveSnapshot()
+				}
+			} catch (err) {
+				console.error('Persistence: Polling network error:', err)
+			}
+		}
+
 		const saveSnapshot = throttle(async () => {
+			if (isDiffEmpty(unsaved)) return
+			saving = unsaved
+			unsaved = createEmptyDiff()
 			const snapshot = store.getSnapshot()
+			const baseRevision = revisionRef.current
 			console.log('Persistence: Throttled save firing. Current snapshot size:', JSON.stringify(snapshot).length)
 			try {
 				const response = await fetch('/api/drawing', {
 					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({ id: DRAWING_ID, snapshot }),
+					headers: { 'Content-Type': 'application/json', ...tokenHeaders(token) },
+					body: JSON.stringify({ id: drawingId, snapshot, revision: baseRevision }),
 				})
-				if (!response.ok) {
+				if (response.status === 409) {
+					// Someone else saved first – take their changes, then save ours on top. Saving again
+					// before our revision has moved past theirs would only be rejected again.
+					console.warn('Persistence: Save rejected as stale, pulling from server.')
+					unsaved = mergeDiffs(saving, unsaved)
+					saving = createEmptyDiff()
+					resaveAfterPull = true
+					await pullChanges()
+					// A poll already in flight may have been answered before their save
+					if (resaveAfterPull) await pullChanges()
+					if (resaveAfterPull) console.warn('Persistence: Server copy not fetched yet, saving after the next poll.')
+				} else if (!response.ok) {
 					const errorData = await response.json()
 					console.error('Persistence: Save request failed:', errorData)
+					unsaved = mergeDiffs(saving, unsaved)
 				} else {
+					revisionRef.current = (await response.json()).revision
+					// The ETag belongs to the copy before our save; the next poll asks with since= instead
+					etagRef.current = null
 					console.log('Persistence: Save request successful.')
 				}
 			} catch (err) {
 				console.error('Persistence: Network error during save:', err)
+				unsaved = mergeDiffs(saving, unsaved)
+			} finally {
+				saving = createEmptyDiff()
 			}
 		}, 2000)
 
 		const unsubscribe = store.listen((update) => {
-			console.log('Persistence: Store update detected from source:', update.source)
-			if (update.source === 'user') {
-				saveSnapshot()
-			}
-		}, { scope: 'document' })
-
-		return () => {
-			console.log('Persistence: Cleaning up change listener.')
-			unsubscribe()
-		}
-	}, [store, loadingState.status])
+			unsaved = mergeDiffs(unsaved, update.changes)
+			saveSnapshot()
+		}, { source: 'user', scope: 'document' })
 
-	useEffect(() => {
-		if (loadingState.status !== 'ready') return
-
-		let isCancelled = false
-		let isFetching = false
-
-		async function pollServer() {
-			if (isFetching) return
-			isFetching = true
-			try {
-				const response = await fetch(`/api/drawing?id=${DRAWING_ID}`)
-				if (response.ok) {
-					const snapshot = await response.json()
-					if (snapshot && !isCancelled) {
-						const current = store.getSnapshot()
-						if (JSON.stringify(snapshot) !== JSON.stringify(current)) {
-							console.log('Persistence: Remote changes detected during polling. Syncing...')
-							store.loadSnapshot(snapshot)
-						}
-					}
-				}
-			} catch (err) {
-				console.error('Persistence: Polling network error:', err)
-			} finally {
-				isFetching = false
-			}
-		}
-
-		const interval = setInterval(pollServer, 5000) // Increase interval slightly to reduce noise
+		const interval = setInterval(pullChanges, POLL_INTERVAL)
 
 		return () => {
+			console.log('Persistence: Cleaning up change listener.')
 			isCancelled = true
 			clearInterval(interval)
+			unsubscribe()
 		}
-	}, [store, loadingState.status])
+	}, [store, drawingId, token, loadingState.status])
 
 	return { store, loadingState }
 }
@@ -1,243 +1,619 @@
-import { createTLStore, defaultShapeUtils, throttle, type TLAssetStore } from 'tldraw'
-import { useEffect, useState, useRef } from 'react'
-import Pusher from 'pusher-js'
+import {
+	atom,
+	computed,
+	createPresenceStateDerivation,
+	createTLStore,
+	defaultShapeUtils,
+	getUserPreferences,
+	InstancePresenceRecordType,
+	react,
+	throttle,
+	type TLAssetStore,
+	type TLInstancePresence,
+} from 'tldraw'
+import { useCallback, useEffect, useState, useRef } from 'react'
+import Pusher, { type PresenceChannel } from 'pusher-js'
+import type { BoardMember, SyncStatus } from '../components/BoardContext'
+import { readAccess, readError, readRetryAfter, readRevision, tokenHeaders, type DrawingAccess } from '../lib/drawingApi'
+import { storeToken } from '../lib/shareTokens'
+import { drawingPath } from './useRoute'
+import { readCachedDrawing, readOutbox, writeCachedDrawing, writeOutbox } from '../lib/offlineCache'
+import { createDiffReceiver, type ChangeLogPage, type DiffChunk, type DiffReceiver } from '../lib/diffReceiver'
+import {
+	applyLocalChanges,
+	applyRemoteChanges,
+	countDiffRecords,
+	createEmptyDiff,
+	diffStoreToSnapshot,
+	filterSyncedChanges,
+	isDiffEmpty,
+	mergeDiffs,
+	rebaseChangesOntoStore,
+	type TLRecordsDiff,
+} from '../lib/recordDiff'
 
 const PUSHER_KEY = import.meta.env.VITE_PUSHER_KEY
 const PUSHER_CLUSTER = import.meta.env.VITE_PUSHER_CLUSTER
-const DRAWING_ID = 'global-canvas'
-// Chunked base64 encode so large images don't hit "Maximum call stack size exceeded"
-function toBase64(arrayBuffer: ArrayBuffer): string {
-	const bytes = new Uint8Array(arrayBuffer)
-	const chunkSize = 4096
-	let binary = ''
-	for (let i = 0; i < bytes.length; i += chunkSize) {
-		const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length))
-		binary += String.fromCharCode.apply(null, chunk as unknown as number[])
+// Failed saves and broadcasts are retried after 2 s, doubling up to a minute
+const RETRY_BASE_DELAY = 2000
+const RETRY_MAX_DELAY = 60000
+// Pusher allows at most 10 client events per second per connection
+const PRESENCE_THROTTLE = 100
+// Browsers drop keepalive requests with bodies over 64 KB; leave room for the other unload requests
+const KEEPALIVE_MAX_BYTES = 60_000
+// Upload images to our API so all tabs (and other clients) can load them via the same URL.
+// Assets belong to the drawing and are served only to holders of its share token.
+export function createAssetStore(drawingId: string, getToken: () => string | undefined): TLAssetStore {
+	return {
+		async upload(_asset, file, abortSignal) {
+			// Raw bytes: the server sniffs the type and dedups identical files by content hash
+			const res = await fetch(`/api/asset?drawingId=${encodeURIComponent(drawingId)}`, {
+				method: 'POST',
+				headers: { 'Content-Type': file.type || 'application/octet-stream', ...tokenHeaders(getToken()) },
+				body: file,
+				signal: abortSignal,
+			})
+			if (!res.ok) {
+				const err = await res.json().catch(() => ({}))
+				throw new Error((err as { error?: string }).error || `Upload failed: ${res.status}`)
+			}
+			const { src } = await res.json()
+			return { src }
+		},
+		resolve(asset) {
+			const src = asset.props.src
+			if (typeof src !== 'string') return src
+			// Blob URLs only work in the tab that created them; other tabs/refresh can't load them
+			if (src.startsWith('blob:')) return null
+			if (src.startsWith('/')) {
+				const url = new URL(src, window.location.origin)
+				const token = getToken()
+				if (token && url.pathname.startsWith('/api/asset')) url.searchParams.set('token', token)
+				return url.toString()
+			}
+			return src
+		},
 	}
-	return btoa(binary)
 }
-// Upload images to our API so all tabs (and other clients) can load them via the same URL
-const assetStore: TLAssetStore = {
-	async upload(_asset, file, abortSignal) {
-		const arrayBuffer = await file.arrayBuffer()
-		const base64 = toBase64(arrayBuffer)
-		const res = await fetch('/api/asset', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ data: base64, mimeType: file.type || 'image/png' }),
-			signal: abortSignal,
-		})
-		if (!res.ok) {
-			const err = await res.json().catch(() => ({}))
-			throw new Error((err as { error?: string }).error || `Upload failed: ${res.status}`)
-		}
-		const { src } = await res.json()
-		return { src }
-	},
-	resolve(asset) {
-		const src = asset.props.src
-		if (typeof src !== 'string') return src
-		// Blob URLs only work in the tab that created them; other tabs/refresh can't load them
-		if (src.startsWith('blob:')) return null
-		if (src.startsWith('/')) {
-			return typeof window !== 'undefined' ? window.location.origin + src : src
-		}
-		return src
-	},
+export interface PusherPersistenceOptions {
+	// Only load and follow live updates: no saves, no presence, never creates the drawing (embeds)
+	readOnly?: boolean
 }
-export function usePusherPersistence() {
+
+export function usePusherPersistence(drawingId: string, initialToken?: string, { readOnly = false }: PusherPersistenceOptions = {}) {
+	// Share token for this drawing; a brand-new drawing receives its edit token on first save
+	const tokenRef = useRef(initialToken)
+	const getToken = useCallback(() => tokenRef.current, [])
 	const [store] = useState(() =>
-		createTLStore({ shapeUtils: defaultShapeUtils, assets: assetStore })
+		createTLStore({ shapeUtils: defaultShapeUtils, assets: createAssetStore(drawingId, getToken) })
 	)
 	const [loadingState, setLoadingState] = useState<{ status: 'loading' | 'ready' | 'error'; error?: string }>({
 		status: 'loading',
 	})
+	const [members, setMembers] = useState<BoardMember[]>([])
+	const [access, setAccess] = useState<DrawingAccess>('edit')
+	const [syncStatus, setSyncStatus] = useState<SyncStatus>({
+		connection: 'initialized',
+		pendingChanges: 0,
+		lastSavedAt: null,
+		lastError: null,
+		nextRetryAt: null,
+	})
+	const updateSyncStatus = useCallback((update: Partial<SyncStatus>) => setSyncStatus((status) => ({ ...status, ...update })), [])
+	// Set by the save effect while it is running
+	const retrySavesRef = useRef<() => void>(() => {})
 	const pusherRef = useRef<Pusher | null>(null)
+	// Listeners for the channel's other events (e.g. comments), by event name
+	const channelListenersRef = useRef(new Map<string, Set<(data: any) => void>>())
+	// Orders numbered diffs and fills gaps from the server's change log
+	const receiverRef = useRef<DiffReceiver | null>(null)
 	const isUpdatingFromRemote = useRef(false)
+	// Server revision our store is based on, sent with every save for optimistic concurrency
+	const revisionRef = useRef(0)
+	// Set when the server was unreachable at boot and the store came from the IndexedDB cache
+	const bootedFromCacheRef = useRef(false)
 	useEffect(() => {
+		let hasLoaded = false
+		// Boot from the last cached copy when the server can't be reached on first load
+		async function loadFromCache() {
+			if (hasLoaded) return false
+			const cached = await readCachedDrawing(drawingId).catch(() => undefined)
+			if (!cached) return false
+			console.warn('PusherPersistence: Server unreachable, booting from offline cache (cached at', new Date(cached.cachedAt).toISOString() + ')')
+			store.mergeRemoteChanges(() => {
+				store.loadSnapshot(cached.snapshot)
+			})
+			revisionRef.current = cached.revision
+			// Read-only unless the token could edit when the copy was cached; the server decides once it's back
+			setAccess(cached.access ?? 'view')
+			bootedFromCacheRef.current = true
+			hasLoaded = true
+			setLoadingState({ status: 'ready' })
+			return true
+		}
 		// 1. Initial Load from DB
 		async function loadInitial() {
 			console.log('PusherPersistence: Initializing load...')
 			try {
-				const response = await fetch(`/api/drawing?id=${DRAWING_ID}`)
+				const response = await fetch(`/api/drawing?id=${encodeURIComponent(drawingId)}`, { headers: tokenHeaders(tokenRef.current) })
 				if (response.ok) {
+					revisionRef.current = readRevision(response)
+					const serverAccess = readAccess(response)
+					setAccess(serverAccess)
 					const snapshot = await response.json()
 					if (snapshot && snapshot.schema) {
 						console.log('PusherPersistence: Valid snapshot found. Version:', snapshot.schema.schemaVersion)
 						console.log('PusherPersistence: Loading snapshot into store...')
 						isUpdatingFromRemote.current = true
 						try {
-							store.loadSnapshot(snapshot)
+							store.mergeRemoteChanges(() => {
+								store.loadSnapshot(snapshot)
+							})
+							writeCachedDrawing(drawingId, snapshot, revisionRef.current, serverAccess).catch((err) =>
+								console.warn('PusherPersistence: Failed to cache snapshot:', err)
+							)
 							console.log('PusherPersistence: Load successful!')
-						} catch (e) {
+						} catch (e: any) {
+							isUpdatingFromRemote.current = false
 							console.error('PusherPersistence: Failed to load snapshot:', e)
-							console.warn('PusherPersistence: Falling back to fresh state locally (not overwriting server).')
+							// A blank board here would hide the problem and start diffing against nothing
+							if (!hasLoaded) {
+								setLoadingState({ status: 'error', error: `This drawing could not be loaded: ${e.message}` })
+								return
+							}
+							console.warn('PusherPersistence: Keeping the current state (not overwriting server).')
 						}
 						isUpdatingFromRemote.current = false
+					} else if (snapshot == null && readOnly) {
+						console.warn('PusherPersistence: No existing drawing, showing an empty board.')
 					} else if (snapshot == null) {
 						// No drawing in DB yet – initialize with fresh snapshot so first save works
 						console.warn('PusherPersistence: No existing drawing. Using fresh state.')
-						const freshSnapshot = store.serialize()
+						const freshSnapshot = store.getStoreSnapshot()
 						try {
-							await fetch('/api/drawing', {
+							const res = await fetch('/api/drawing', {
 								method: 'POST',
-								headers: { 'Content-Type': 'application/json' },
-								body: JSON.stringify({ id: DRAWING_ID, snapshot: freshSnapshot }),
+								headers: { 'Content-Type': 'application/json', ...tokenHeaders(tokenRef.current) },
+								body: JSON.stringify({ id: drawingId, snapshot: freshSnapshot, revision: revisionRef.current }),
 							})
-							console.log('PusherPersistence: Fresh snapshot initialized in DB.')
+							if (res.ok) {
+								const { revision, editToken } = await res.json()
+								revisionRef.current = revision
+								if (editToken && !tokenRef.current) {
+									// We created this drawing: keep its edit token and put it in the URL to share
+									tokenRef.current = editToken
+									storeToken(drawingId, editToken)
+									window.history.replaceState(null, '', drawingPath(drawingId, editToken))
+								}
+								console.log('PusherPersistence: Fresh snapshot initialized in DB.')
+							} else {
+								// Another client initialized it first; our first save will merge with theirs
+								console.warn('PusherPersistence: Fresh snapshot not initialized, status:', res.status)
+							}
 						} catch (err) {
 							console.error('PusherPersistence: Failed to initialize fresh snapshot:', err)
 						}
 					} else {
-						console.warn('PusherPersistence: Invalid snapshot from server. Using fresh state locally (not overwriting).')
+						console.error('PusherPersistence: Invalid snapshot from server.')
+						if (!hasLoaded) {
+							setLoadingState({ status: 'error', error: 'This drawing could not be loaded: the stored snapshot is invalid' })
+							return
+						}
+					}
+				} else if (response.status === 403) {
+					const { error } = await response.json().catch(() => ({}))
+					setLoadingState({ status: 'error', error: error ?? 'You need a share link to open this drawing.' })
+					return
+				} else if (response.status === 422) {
+					// The stored snapshot can't be migrated to this version of tldraw
+					const { error } = await response.json().catch(() => ({}))
+					console.error('PusherPersistence: Server could not migrate snapshot:', error)
+					if (!hasLoaded) {
+						setLoadingState({ status: 'error', error: `This drawing could not be loaded: ${error ?? 'unsupported snapshot'}` })
+						return
 					}
 				} else {
 					console.error('PusherPersistence: Load failed with status:', response.status)
+					if (response.status >= 500 && (await loadFromCache())) return
 				}
+				hasLoaded = true
 				setLoadingState({ status: 'ready' })
 			} catch (err: any) {
 				console.error('PusherPersistence: Initial load error:', err)
-				setLoadingState({ status: 'error', error: err.message })
+				if (await loadFromCache()) return
+				if (!hasLoaded) setLoadingState({ status: 'error', error: err.message })
 			}
 		}
 		loadInitial()
 		// 2. Pusher Setup
 		if (!PUSHER_KEY || !PUSHER_CLUSTER) {
 			console.warn('PusherPersistence: Missing keys, live sync disabled.')
+			updateSyncStatus({ connection: 'disabled' })
 			return
 		}
 		console.log('PusherPersistence: Connecting to Pusher...')
-		const pusher = new Pusher(PUSHER_KEY, { cluster: PUSHER_CLUSTER })
+		const user = getUserPreferences()
+		const pusher = new Pusher(PUSHER_KEY, {
+			cluster: PUSHER_CLUSTER,
+			// Presence members show the local tldraw user's name and color; the server picks their id
+			channelAuthorization: {
+				endpoint: '/api/pusher-auth',
+				transport: 'ajax',
+				paramsProvider: () => ({
+					user_name: user.name ?? '',
+					user_color: user.color ?? '',
+					token: tokenRef.current ?? '',
+				}),
+			},
+		})
 		pusherRef.current = pusher
-		const channel = pusher.subscribe(`drawing-${DRAWING_ID}`)
-		channel.bind('drawing-diff', (data: { changes: any }) => {
-			console.log('PusherPersistence: Received incremental sync')
+		pusher.connection.bind('state_change', ({ current }: { current: string }) => updateSyncStatus({ connection: current }))
+		const channel = pusher.subscribe(`private-drawing-${drawingId}`)
+		const applyDiff = (changes: TLRecordsDiff) => {
 			isUpdatingFromRemote.current = true
 			try {
-				store.mergeRemoteChanges(() => {
-					const { added, updated, removed } = data.changes
-					
-					// Apply removals
-					for (const [id, _] of Object.entries(removed)) {
-						store.remove([id as any])
-					}
-					
-					// Apply additions and updates
-					const toPut = [
-						...Object.values(added),
-						...Object.values(updated).map((u: any) => u[1]) // updated is [old, new]
-					]
-					
-					if (toPut.length > 0) {
-						store.put(toPut as any[])
-					}
-				})
+				applyRemoteChanges(store, changes)
 			} catch (err) {
 				console.error('PusherPersistence: Remote merge error:', err)
 			}
 			isUpdatingFromRemote.current = false
+		}
+		const receiver = createDiffReceiver({
+			apply: applyDiff,
+			async fetchChanges(after): Promise<ChangeLogPage> {
+				const response = await fetch(`/api/drawing/${encodeURIComponent(drawingId)}/changes?after=${after}`, {
+					headers: tokenHeaders(tokenRef.current),
+				})
+				if (!response.ok) throw new Error(`Change log request failed with status ${response.status}`)
+				return response.json()
+			},
+			resync: () => loadInitial(),
+			clientId: () => pusher.connection.socket_id,
+		})
+		receiverRef.current = receiver
+		channel.bind('drawing-diff', (data: { seq?: number | null; changes: TLRecordsDiff }) => {
+			console.log('PusherPersistence: Received incremental sync')
+			receiver.receive(data.seq, data.changes)
 		})
-		channel.bind('drawing-sync-request', () => {
-			console.log('PusherPersistence: Received full sync request (payload too large fallback)')
-			loadInitial()
+		channel.bind('drawing-diff-chunk', (chunk: DiffChunk) => receiver.receiveChunk(chunk))
+		channel.bind_global((event: string, data: unknown) => {
+			channelListenersRef.current.get(event)?.forEach((listener) => listener(data))
+		})
+		channel.bind('drawing-sync-request', (data?: { seq?: number | null }) => {
+			if (data?.seq == null) {
+				console.log('PusherPersistence: Received full sync request (payload too large fallback)')
+				loadInitial()
+				return
+			}
+			console.log('PusherPersistence: Diff', data.seq, 'too large to send, fetching it from the change log')
+			receiver.missed(data.seq)
 		})
+		// 3. Presence: member list + tldraw instance_presence records for collaborator cursors/selections
+		const joinPresence = () => {
+			const presenceChannel = pusher.subscribe(`presence-drawing-${drawingId}`) as PresenceChannel
+			const updateMembers = () => {
+				const list: BoardMember[] = []
+				presenceChannel.members.each((member: { id: string; info: Omit<BoardMember, 'id'> }) => {
+					list.push({ id: member.id, ...member.info })
+				})
+				setMembers(list)
+			}
+			// Our presence records carry the member id the server gave this subscription, which is
+			// what the others check them against
+			const $memberId = atom('memberId', '')
+			const $presenceUser = computed('presenceUser', () => {
+				const { name, color } = getUserPreferences()
+				return { id: $memberId.get(), name: name || 'Anonymous', color: color ?? undefined }
+			})
+			const $presence = createPresenceStateDerivation($presenceUser, InstancePresenceRecordType.createId(store.id))(store)
+			const sendPresence = throttle(() => {
+				const presence = $presence.get()
+				if (presence && presenceChannel.subscribed && $memberId.get()) presenceChannel.trigger('client-presence', presence)
+			}, PRESENCE_THROTTLE)
+			presenceChannel.bind('pusher:subscription_succeeded', () => {
+				$memberId.set(presenceChannel.members.me.id)
+				updateMembers()
+				sendPresence()
+			})
+			presenceChannel.bind('pusher:member_added', () => {
+				updateMembers()
+				// Let the newcomer see us without waiting for our next pointer move
+				sendPresence()
+			})
+			presenceChannel.bind('pusher:member_removed', (member: { id: string }) => {
+				updateMembers()
+				const stale = store.query.records('instance_presence').get().filter((p) => p.userId === member.id)
+				if (stale.length > 0) store.mergeRemoteChanges(() => store.remove(stale.map((p) => p.id)))
+			})
+			// Client events come from any member, view-only ones included: take only a valid presence
+			// record of the member that sent it
+			presenceChannel.bind('client-presence', (presence: TLInstancePresence, metadata?: { user_id?: string }) => {
+				if (!metadata?.user_id || presence?.typeName !== 'instance_presence' || presence.userId !== metadata.user_id) return
+				try {
+					InstancePresenceRecordType.validate(presence)
+				} catch (err) {
+					console.warn('PusherPersistence: Ignored invalid presence from', metadata.user_id, err)
+					return
+				}
+				store.mergeRemoteChanges(() => store.put([presence]))
+			})
+			const stopPresence = react('broadcast presence', () => {
+				$presence.get()
+				sendPresence()
+			})
+			return () => {
+				stopPresence()
+				setMembers([])
+				pusher.unsubscribe(`presence-drawing-${drawingId}`)
+			}
+		}
+		// Read-only embeds watch without joining
+		const leavePresence = readOnly ? () => {} : joinPresence()
 		return () => {
 			console.log('PusherPersistence: Cleaning up subscription...')
-			pusher.unsubscribe(`drawing-${DRAWING_ID}`)
+			leavePresence()
+			receiver.dispose()
+			receiverRef.current = null
+			pusher.unsubscribe(`private-drawing-${drawingId}`)
 			pusher.disconnect()
+			pusherRef.current = null
 		}
-	}, [store])
+	}, [store, drawingId, readOnly, updateSyncStatus])
 	useEffect(() => {
-		if (loadingState.status !== 'ready') return
-		// Throttled persistence to DB (Full Snapshot)
+		// View-only links never write; remote diffs still arrive through the first effect
+		if (loadingState.status !== 'ready' || access !== 'edit' || readOnly) return
+		let isCancelled = false
+		// Local edits not yet acknowledged by the server – reapplied on top of the server copy on conflict
+		let unsavedChanges = createEmptyDiff()
+		let inFlightChanges = createEmptyDiff()
+		let isSaving = false
+		let saveQueued = false
+		let retryTimeout: ReturnType<typeof setTimeout> | undefined
+		// Consecutive failures, for the retry backoff
+		let retryAttempt = 0
+		// Durable outbox: everything the server hasn't acknowledged survives a reload or a crash
+		const persistOutbox = throttle(() => {
+			const outbox = mergeDiffs(inFlightChanges, unsavedChanges)
+			updateSyncStatus({ pendingChanges: countDiffRecords(outbox) })
+			writeOutbox(drawingId, outbox).catch((err) =>
+				console.warn('PusherPersistence: Failed to write outbox:', err)
+			)
+		}, 250)
+		const cacheSnapshot = throttle(() => {
+			// Only runs while we can edit
+			writeCachedDrawing(drawingId, store.getStoreSnapshot(), revisionRef.current, 'edit').catch((err) =>
+				console.warn('PusherPersistence: Failed to cache snapshot:', err)
+			)
+		}, 2000)
+		// Full snapshots are only needed to initialise a drawing the server has no snapshot for
+		const postSnapshot = () =>
+			fetch('/api/drawing', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', ...tokenHeaders(tokenRef.current) },
+				body: JSON.stringify({ id: drawingId, snapshot: store.getSnapshot(), revision: revisionRef.current }),
+			})
+		const postChanges = (changes: TLRecordsDiff, keepalive = false) =>
+			fetch('/api/drawing', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/json', ...tokenHeaders(tokenRef.current) },
+				body: JSON.stringify({ id: drawingId, changes }),
+				keepalive,
+			})
+		// Pull the server copy into the store, keeping records with unsaved local edits as they are
+		const pullServerCopy = async (localChanges: TLRecordsDiff) => {
+			const response = await fetch(`/api/drawing?id=${encodeURIComponent(drawingId)}`, { headers: tokenHeaders(tokenRef.current) })
+			if (!response.ok) throw new Error(`Reload failed with status ${response.status}`)
+			const serverSnapshot = await response.json()
+			revisionRef.current = readRevision(response)
+			if (serverSnapshot?.schema) {
+				isUpdatingFromRemote.current = true
+				try {
+					applyRemoteChanges(store, diffStoreToSnapshot(store, serverSnapshot, localChanges))
+				} finally {
+					isUpdatingFromRemote.current = false
+				}
+			}
+		}
+		// Someone else saved since we loaded: pull their copy, keep our unsaved edits on top, try again
+		const mergeWithServer = async (localChanges: TLRecordsDiff) => {
+			await pullServerCopy(localChanges)
+			return postSnapshot()
+		}
+		// Retry after `delay`, or with exponential backoff
+		const scheduleRetry = (delay?: number) => {
+			if (retryTimeout || isCancelled) return
+			const wait = delay ?? Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** retryAttempt++)
+			updateSyncStatus({ nextRetryAt: Date.now() + wait })
+			retryTimeout = setTimeout(() => {
+				retryTimeout = undefined
+				updateSyncStatus({ nextRetryAt: null })
+				handleReconnect()
+			}, wait)
+		}
+		// Throttled persistence to DB (record diffs, applied server-side)
 		const saveToDb = throttle(async () => {
-			if (isUpdatingFromRemote.current) return
-			const snapshot = store.getSnapshot()
+			if (isUpdatingFromRemote.current || isDiffEmpty(unsavedChanges)) return
+			if (isSaving) {
+				saveQueued = true
+				return
+			}
+			isSaving = true
+			inFlightChanges = unsavedChanges
+			unsavedChanges = createEmptyDiff()
 			console.log('PusherPersistence: Attempting to save to MongoDB...')
 			try {
-				const res = await fetch('/api/drawing', {
-					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({ id: DRAWING_ID, snapshot }),
-				})
+				let res = await postChanges(inFlightChanges)
+				if (res.status === 404) {
+					console.warn('PusherPersistence: Server has no snapshot yet, sending full snapshot...')
+					res = await postSnapshot()
+				}
+				if (res.status === 409) {
+					console.warn('PusherPersistence: Save conflict, merging with server copy...')
+					res = await mergeWithServer(mergeDiffs(inFlightChanges, unsavedChanges))
+				}
 				if (!res.ok) {
-					const errorData = await res.json().catch(() => ({}))
-					console.error('PusherPersistence: Save Failed - Status:', res.status, errorData)
+					const error = await readError(res)
+					console.error('PusherPersistence: Save Failed - Status:', res.status, error)
+					unsavedChanges = mergeDiffs(inFlightChanges, unsavedChanges)
+					updateSyncStatus({ lastError: `Save failed: ${error}` })
+					// Other client errors won't go away by themselves; "retry now" can still resend
+					if (res.status === 429) scheduleRetry(readRetryAfter(res) * 1000)
+					else if (res.status >= 500) scheduleRetry()
 				} else {
-					console.log('PusherPersistence: Save Successful (Throttled)')
+					const { revision } = await res.json()
+					revisionRef.current = revision
+					retryAttempt = 0
+					updateSyncStatus({ lastSavedAt: Date.now(), lastError: null })
+					console.log('PusherPersistence: Save Successful (Throttled), revision', revision)
 				}
-			} catch (err) {
+			} catch (err: any) {
 				console.error('PusherPersistence: Network Error during save:', err)
+				unsavedChanges = mergeDiffs(inFlightChanges, unsavedChanges)
+				updateSyncStatus({ lastError: `Save failed: ${err.message}` })
+				scheduleRetry()
+			} finally {
+				inFlightChanges = createEmptyDiff()
+				isSaving = false
+				persistOutbox()
+				if (saveQueued) {
+					saveQueued = false
+					saveToDb()
+				}
 			}
 		}, 2000)
 		// Emergency save on window close
 		const handleBeforeUnload = () => {
-			if (isUpdatingFromRemote.current) return
-			const snapshot = store.getSnapshot()
-			// Using fetch with keepalive: true for beforeunload
-			fetch('/api/drawing', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ id: DRAWING_ID, snapshot }),
-				keepalive: true
-			})
+			// The save being sent may be cut off by the unload too
+			const changes = mergeDiffs(inFlightChanges, unsavedChanges)
+			if (isUpdatingFromRemote.current || isDiffEmpty(changes)) return
+			if (new Blob([JSON.stringify({ id: drawingId, changes })]).size > KEEPALIVE_MAX_BYTES) {
+				// Too big for a keepalive request: the outbox sends it on the next visit
+				console.warn('PusherPersistence: Unsaved changes too large to send on unload, keeping them in the outbox')
+				persistOutbox.flush()
+				return
+			}
+			postChanges(changes, true)
 		}
 		window.addEventListener('beforeunload', handleBeforeUnload)
 		// Throttled Broadcast of Diffs
-		let pendingChanges: any = { added: {}, updated: {}, removed: {} }
+		let pendingChanges = createEmptyDiff()
 		const flushBroadcast = throttle(async () => {
 			const socketId = pusherRef.current?.connection.socket_id
-			const changesToSend = { ...pendingChanges }
-			pendingChanges = { added: {}, updated: {}, removed: {} }
-			if (
-				Object.keys(changesToSend.added).length === 0 &&
-				Object.keys(changesToSend.updated).length === 0 &&
-				Object.keys(changesToSend.removed).length === 0
-			) return
+			const changesToSend = pendingChanges
+			pendingChanges = createEmptyDiff()
+			if (isDiffEmpty(changesToSend)) return
 			try {
-				await fetch('/api/pusher-trigger', {
+				const res = await fetch('/api/pusher-trigger', {
 					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
+					headers: { 'Content-Type': 'application/json', ...tokenHeaders(tokenRef.current) },
 					body: JSON.stringify({ 
-						id: DRAWING_ID, 
+						id: drawingId, 
 						changes: changesToSend,
 						socketId 
 					}),
 				})
-			} catch (err) {
+				// Pusher doesn't echo our own diff, so its seq only reaches us here
+				if (res.ok) {
+					const { seq } = await res.json().catch(() => ({}))
+					receiverRef.current?.acknowledge(seq)
+				} else {
+					const error = await readError(res)
+					console.error('PusherPersistence: Broadcast Failed - Status:', res.status, error)
+					updateSyncStatus({ lastError: `Live update failed: ${error}` })
+					// Nothing was sent: over the rate limit or a server error, send it again later
+					if (res.status === 429 || res.status >= 500) {
+						pendingChanges = mergeDiffs(changesToSend, pendingChanges)
+						scheduleRetry(res.status === 429 ? readRetryAfter(res) * 1000 : undefined)
+					}
+				}
+			} catch (err: any) {
+				// Offline: keep the diff so it is broadcast once we're back
 				console.error('PusherPersistence: Broadcast Error:', err)
+				pendingChanges = mergeDiffs(changesToSend, pendingChanges)
+				updateSyncStatus({ lastError: `Live update failed: ${err.message}` })
+				scheduleRetry()
 			}
 		}, 60) // High frequency for smooth sync
+		// Back online: reconcile a cache-booted store with the server copy, then replay the outbox
+		const handleReconnect = async () => {
+			if (isCancelled) return
+			if (bootedFromCacheRef.current) {
+				try {
+					await pullServerCopy(mergeDiffs(inFlightChanges, unsavedChanges))
+					bootedFromCacheRef.current = false
+					console.log('PusherPersistence: Reconciled offline copy with server.')
+				} catch (err) {
+					console.warn('PusherPersistence: Server still unreachable:', err)
+					scheduleRetry()
+					return
+				}
+			}
+			flushBroadcast()
+			saveToDb()
+		}
+		window.addEventListener('online', handleReconnect)
+		pusherRef.current?.connection.bind('connected', handleReconnect)
+		retrySavesRef.current = () => {
+			clearTimeout(retryTimeout)
+			retryTimeout = undefined
+			retryAttempt = 0
+			updateSyncStatus({ nextRetryAt: null })
+			handleReconnect()
+		}
 		const unsubscribe = store.listen((update) => {
 			if (update.source === 'user') {
 				// Accumulate only relevant changes (shapes, assets, pages, document)
-				for (const [id, record] of Object.entries(update.changes.added)) {
-					const type = (record as any).typeName
-					if (type === 'shape' || type === 'asset' || type === 'page' || type === 'document') {
-						pendingChanges.added[id] = record
-					}
-				}
-				for (const [id, record] of Object.entries(update.changes.updated)) {
-					const newVal = record[1]
-					const type = (newVal as any).typeName
-					if (type === 'shape' || type === 'asset' || type === 'page' || type === 'document') {
-						pendingChanges.updated[id] = record
-					}
-				}
-				for (const [id, record] of Object.entries(update.changes.removed)) {
-					const type = (record as any).typeName
-					if (type === 'shape' || type === 'asset' || type === 'page' || type === 'document') {
-						pendingChanges.removed[id] = record
-					}
-				}
+				const syncedChanges = filterSyncedChanges(update.changes)
+				pendingChanges = mergeDiffs(pendingChanges, syncedChanges)
+				unsavedChanges = mergeDiffs(unsavedChanges, syncedChanges)
+				persistOutbox()
 				flushBroadcast()
 				saveToDb()
 			}
 		}, { scope: 'document' })
+		const unsubscribeCache = store.listen(() => cacheSnapshot(), { scope: 'document' })
+		// Replay edits left in the outbox by a previous session
+		readOutbox(drawingId)
+			.then((outbox) => {
+				if (isCancelled || !outbox || isDiffEmpty(outbox)) return
+				console.log('PusherPersistence: Replaying offline outbox...')
+				if (bootedFromCacheRef.current) {
+					// The cached snapshot already contains these edits; just queue them for the server
+					pendingChanges = mergeDiffs(outbox, pendingChanges)
+					unsavedChanges = mergeDiffs(outbox, unsavedChanges)
+					flushBroadcast()
+					saveToDb()
+				} else {
+					// Goes through the listener above like any user edit
+					applyLocalChanges(store, rebaseChangesOntoStore(store, outbox))
+				}
+			})
+			.catch((err) => console.warn('PusherPersistence: Failed to read outbox:', err))
 		return () => {
+			isCancelled = true
+			clearTimeout(retryTimeout)
+			retrySavesRef.current = () => {}
 			unsubscribe()
+			unsubscribeCache()
 			window.removeEventListener('beforeunload', handleBeforeUnload)
+			window.removeEventListener('online', handleReconnect)
+			pusherRef.current?.connection.unbind('connected', handleReconnect)
+		}
+	}, [store, drawingId, loadingState.status, access, readOnly, updateSyncStatus])
+	// Listen to an event on the drawing's channel; returns the unsubscribe function
+	const onChannelEvent = useCallback((event: string, listener: (data: any) => void) => {
+		const listeners = channelListenersRef.current
+		if (!listeners.has(event)) listeners.set(event, new Set())
+		listeners.get(event)!.add(listener)
+		return () => {
+			listeners.get(event)?.delete(listener)
 		}
-	}, [store, loadingState.status])
-	return { store, loadingState }
+	}, [])
+	const getSocketId = useCallback(() => pusherRef.current?.connection.socket_id, [])
+	const retryNow = useCallback(() => {
+		const pusher = pusherRef.current
+		if (pusher && ['unavailable', 'failed', 'disconnected'].includes(pusher.connection.state)) pusher.connect()
+		retrySavesRef.current()
+	}, [])
+	return { store, loadingState, members, access, getToken, syncStatus, retryNow, onChannelEvent, getSocketId }
 }
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react'
+
+export type Route =
+	| { name: 'list' }
+	| { name: 'drawing'; drawingId: string; token?: string }
+	// Read-only board for iframes; `page` is a page id or name, `fit` zooms to the content
+	| { name: 'embed'; drawingId: string; token?: string; page?: string; fit: boolean }
+	// Read-only replay of the drawing's change log
+	| { name: 'playback'; drawingId: string; token?: string }
+
+// Minimal path router: `/` lists drawings, `/d/:id?token=…` opens one,
+// `/embed/:id?token=…&page=…&fit=0` embeds one read-only, `/playback/:id?token=…` replays its history
+export function parseRoute(pathname: string, search = ''): Route {
+	const params = new URLSearchParams(search)
+	const token = params.get('token') ?? undefined
+	const match = pathname.match(/^\/d\/([^/]+)\/?$/)
+	if (match) {
+		return { name: 'drawing', drawingId: decodeURIComponent(match[1]), token }
+	}
+	const embed = pathname.match(/^\/embed\/([^/]+)\/?$/)
+	if (embed) {
+		const page = params.get('page') ?? undefined
+		return { name: 'embed', drawingId: decodeURIComponent(embed[1]), token, page, fit: params.get('fit') !== '0' }
+	}
+	const playback = pathname.match(/^\/playback\/([^/]+)\/?$/)
+	if (playback) {
+		return { name: 'playback', drawingId: decodeURIComponent(playback[1]), token }
+	}
+	return { name: 'list' }
+}
+
+export function drawingPath(drawingId: string, token?: string) {
+	const path = `/d/${encodeURIComponent(drawingId)}`
+	return token ? `${path}?token=${encodeURIComponent(token)}` : path
+}
+
+export function embedPath(drawingId: string, token?: string) {
+	const path = `/embed/${encodeURIComponent(drawingId)}`
+	return token ? `${path}?token=${encodeURIComponent(token)}` : path
+}
+
+export function playbackPath(drawingId: string, token?: string) {
+	const path = `/playback/${encodeURIComponent(drawingId)}`
+	return token ? `${path}?token=${encodeURIComponent(token)}` : path
+}
+
+export function navigate(path: string) {
+	if (path === window.location.pathname + window.location.search) return
+	window.history.pushState(null, '', path)
+	window.dispatchEvent(new PopStateEvent('popstate'))
+}
+
+export function useRoute() {
+	const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname, window.location.search))
+	useEffect(() => {
+		const handlePopState = () => setRoute(parseRoute(window.location.pathname, window.location.search))
+		window.addEventListener('popstate', handlePopState)
+		return () => window.removeEventListener('popstate', handlePopState)
+	}, [])
+	return route
+}
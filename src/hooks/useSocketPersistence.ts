@@ -1,38 +1,60 @@
-import { createTLStore, defaultShapeUtils, throttle } from 'tldraw'
+import { createTLStore, defaultShapeUtils, throttle, type TLStoreSnapshot } from 'tldraw'
 import { useEffect, useState, useRef } from 'react'
 import { io, Socket } from 'socket.io-client'
+import {
+	applyRemoteChanges,
+	createEmptyDiff,
+	filterSyncedChanges,
+	isDiffEmpty,
+	mergeDiffs,
+	type TLRecordsDiff,
+} from '../lib/recordDiff'
 
 const SERVER_URL = window.location.hostname === 'localhost' ? 'http://localhost:5000' : window.location.origin
 
-export function useSocketPersistence() {
+export function useSocketPersistence(drawingId: string, token?: string) {
 	const [store] = useState(() => createTLStore({ shapeUtils: defaultShapeUtils }))
 	const [loadingState, setLoadingState] = useState<{ status: 'loading' | 'ready' | 'error'; error?: string }>({
 		status: 'loading',
 	})
 	const socketRef = useRef<Socket | null>(null)
-	const isUpdatingFromRemote = useRef(false)
 
 	useEffect(() => {
 		const socket = io(SERVER_URL)
 		socketRef.current = socket
 
+		// (Re)join the drawing's room on every connect so reconnects resubscribe
 		socket.on('connect', () => {
-			console.log('Socket: Connected to server')
+			console.log('Socket: Connected to server, joining', drawingId)
+			socket.emit('join-drawing', { drawingId, token })
 		})
 
-		socket.on('init-store', (snapshot) => {
-			console.log('Socket: Receiving initial snapshot')
-			isUpdatingFromRemote.current = true
-			store.loadSnapshot(snapshot)
-			isUpdatingFromRemote.current = false
+		socket.on('init-store', (snapshot: TLStoreSnapshot | null) => {
+			if (snapshot) {
+				console.log('Socket: Receiving initial snapshot')
+				store.mergeRemoteChanges(() => {
+					store.loadSnapshot(snapshot)
+				})
+			} else {
+				// Nothing stored yet – seed the server with our (empty) store so it has a schema
+				console.log('Socket: No existing drawing, seeding server')
+				socket.emit('init-store', store.getStoreSnapshot())
+			}
 			setLoadingState({ status: 'ready' })
 		})
 
-		socket.on('sync-store', (snapshot) => {
-			console.log('Socket: Receiving remote update')
-			isUpdatingFromRemote.current = true
-			store.loadSnapshot(snapshot)
-			isUpdatingFromRemote.current = false
+		socket.on('sync-store', ({ changes }: { changes: TLRecordsDiff }) => {
+			console.log('Socket: Receiving remote diff')
+			try {
+				applyRemoteChanges(store, changes)
+			} catch (err) {
+				console.error('Socket: Remote merge error:', err)
+			}
+		})
+
+		socket.on('sync-error', ({ error }: { error: string }) => {
+			console.error('Socket: Server error:', error)
+			setLoadingState({ status: 'error', error })
 		})
 
 		socket.on('connect_error', (err) => {
@@ -42,36 +64,55 @@ export function useSocketPersistence() {
 
 		// Safety timeout for loading state
 		const timeout = setTimeout(() => {
-			if (loadingState.status === 'loading') {
-				setLoadingState({ status: 'ready' })
-			}
+			setLoadingState((state) => (state.status === 'loading' ? { status: 'ready' } : state))
 		}, 3000)
 
 		return () => {
 			socket.disconnect()
+			socketRef.current = null
 			clearTimeout(timeout)
 		}
-	}, [store])
+	}, [store, drawingId, token])
 
 	useEffect(() => {
 		if (loadingState.status !== 'ready' || !socketRef.current) return
 
+		const socket = socketRef.current
+		let pendingChanges = createEmptyDiff()
+		let retryTimeout: ReturnType<typeof setTimeout> | undefined
 		const sendUpdate = throttle(() => {
-			if (isUpdatingFromRemote.current) return
-			console.log('Socket: Sending local update to server')
-			socketRef.current?.emit('update-store', store.getSnapshot())
-		}, 500)
+			const changes = pendingChanges
+			pendingChanges = createEmptyDiff()
+			if (isDiffEmpty(changes)) return
+			console.log('Socket: Sending local diff to server')
+			socketRef.current?.emit('update-store', { changes })
+		}, 100)
+
+		// The server dropped a diff over its rate limit: queue it again and resend once allowed
+		const handleRateLimited = ({ changes, retryAfter }: { changes: TLRecordsDiff; retryAfter: number }) => {
+			console.warn('Socket: Rate limited, resending in', retryAfter, 's')
+			pendingChanges = mergeDiffs(changes, pendingChanges)
+			if (retryTimeout) return
+			retryTimeout = setTimeout(() => {
+				retryTimeout = undefined
+				sendUpdate()
+			}, retryAfter * 1000)
+		}
+		socket.on('rate-limited', handleRateLimited)
 
 		const unsubscribe = store.listen((update) => {
 			if (update.source === 'user') {
+				pendingChanges = mergeDiffs(pendingChanges, filterSyncedChanges(update.changes))
 				sendUpdate()
 			}
 		}, { scope: 'document' })
 
 		return () => {
 			unsubscribe()
+			socket.off('rate-limited', handleRateLimited)
+			clearTimeout(retryTimeout)
 		}
-	}, [store, loadingState.status])
+	}, [store, drawingId, loadingState.status])
 
 	return { store, loadingState }
 }
@@ -1,14 +1,67 @@
-import { createTLStore, defaultShapeUtils, throttle } from 'tldraw'
-import { useEffect, useState } from 'react'
+import { createTLStore, defaultShapeUtils, throttle, uniqueId, type TLAssetStore, type TLStoreSnapshot } from 'tldraw'
+import { useEffect, useRef, useState } from 'react'
 import { supabase } from '../supabase'
+import {
+	applyRemoteChanges,
+	createEmptyDiff,
+	diffStoreToSnapshot,
+	filterSyncedChanges,
+	isDiffEmpty,
+	mergeDiffs,
+	type TLRecordsDiff,
+} from '../lib/recordDiff'
 
-const DRAWING_ID = 'global-canvas' // We can make this dynamic later if needed
+// Supabase backend: the `drawings` table holds { id, snapshot, revision, updated_by, updated_at }.
+// Edits go to the other tabs as record diffs on the drawing's Realtime broadcast channel, and
+// the whole snapshot is saved to the row every SAVE_THROTTLE ms, only while the row is still at
+// the revision we last saw. Pasted files go to the ASSET_BUCKET Storage bucket.
 
-export function useSupabasePersistence() {
-	const [store] = useState(() => createTLStore({ shapeUtils: defaultShapeUtils }))
+const SAVE_THROTTLE = 2000
+const BROADCAST_THROTTLE = 100
+// Diffs bigger than this stay under Realtime's message size limit by not being broadcast;
+// the other tabs pick them up from the row once it is saved
+const MAX_BROADCAST_BYTES = 200_000
+const MAX_SAVE_ATTEMPTS = 3
+// A public bucket: asset URLs are stored in the snapshot and loaded directly
+const ASSET_BUCKET = (import.meta.env.VITE_SUPABASE_ASSET_BUCKET as string | undefined) || 'assets'
+
+interface DrawingRow {
+	snapshot: TLStoreSnapshot | null
+	revision: number | null
+	updated_by: string | null
+}
+
+function createSupabaseAssetStore(drawingId: string): TLAssetStore {
+	return {
+		async upload(_asset, file) {
+			const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')) : ''
+			const path = `${drawingId}/${uniqueId()}${extension}`
+			const bucket = supabase.storage.from(ASSET_BUCKET)
+			const { error } = await bucket.upload(path, file, { contentType: file.type || undefined, upsert: false })
+			if (error) throw new Error(`Upload failed: ${error.message}`)
+			return { src: bucket.getPublicUrl(path).data.publicUrl }
+		},
+		resolve(asset) {
+			const src = asset.props.src
+			// Blob URLs only work in the tab that created them
+			if (typeof src === 'string' && src.startsWith('blob:')) return null
+			return src
+		},
+	}
+}
+
+export function useSupabasePersistence(drawingId: string) {
+	const [store] = useState(() => createTLStore({ shapeUtils: defaultShapeUtils, assets: createSupabaseAssetStore(drawingId) }))
 	const [loadingState, setLoadingState] = useState<{ status: 'loading' | 'ready' | 'error'; error?: string }>({
 		status: 'loading',
 	})
+	// Identifies this tab's writes in `updated_by`, so it can skip them in postgres_changes
+	const [clientId] = useState(() => uniqueId())
+	// Revision of the row our store is based on; rows from before the column was added are at 0
+	const revisionRef = useRef(0)
+	// Whether the drawing has a row yet: the first save inserts it, later ones update it
+	const rowExistsRef = useRef(false)
+
 	useEffect(() => {
 		let isCancelled = false
 		async function loadSnapshot() {
@@ -16,8 +69,8 @@ export function useSupabasePersistence() {
 			try {
 				const { data, error } = await supabase
 					.from('drawings')
-					.select('snapshot')
-					.eq('id', DRAWING_ID)
+					.select('snapshot, revision')
+					.eq('id', drawingId)
 					.maybeSingle()
 				if (error) {
 					console.error('useSupabasePersistence: Supabase error loading snapshot:', error)
@@ -28,11 +81,13 @@ export function useSupabasePersistence() {
 					console.log('useSupabasePersistence: Initial snapshot loaded successfully.')
 					store.loadSnapshot(data.snapshot)
 				} else {
-					console.log('useSupabasePersistence: No existing snapshot found for', DRAWING_ID)
+					console.log('useSupabasePersistence: No existing snapshot found for', drawingId)
 				}
-				
+				revisionRef.current = data?.revision ?? 0
+				rowExistsRef.current = !!data
+
 				if (!isCancelled) setLoadingState({ status: 'ready' })
-			} catch (err: any) {	
+			} catch (err: any) {
 				console.error('useSupabasePersistence: Error loading snapshot:', err)
 				if (!isCancelled) setLoadingState({ status: 'error', error: err.message })
 			}
@@ -43,84 +98,146 @@ export function useSupabasePersistence() {
 		return () => {
 			isCancelled = true
 		}
-	}, [store])
+	}, [store, drawingId])
 
 	useEffect(() => {
 		if (loadingState.status !== 'ready') return
 
-		console.log('useSupabasePersistence: Attempting to join channel:', `drawing_sync`)
-		
-		const channel = supabase.channel('drawing_sync', {
+		console.log('useSupabasePersistence: Attempting to join channel:', `drawing_sync_${drawingId}`)
+
+		const channel = supabase.channel(`drawing_sync_${drawingId}`, {
 			config: {
 				broadcast: { self: false },
 				presence: { key: 'canvas' }
 			}
 		})
 
+		// Local edits not yet broadcast / not yet saved to the row / in the save being written
+		let unsent = createEmptyDiff()
+		let unsaved = createEmptyDiff()
+		let saving = createEmptyDiff()
+		let isSaving = false
+		let saveAgain = false
+
+		// Bring the store in line with a newer row, keeping our own unsaved edits on top
+		const mergeRow = (row: DrawingRow) => {
+			revisionRef.current = row.revision ?? 0
+			rowExistsRef.current = true
+			if (!row.snapshot) return
+			try {
+				applyRemoteChanges(store, diffStoreToSnapshot(store, row.snapshot, mergeDiffs(saving, unsaved)))
+			} catch (err) {
+				console.error('useSupabasePersistence: Failed to merge the stored snapshot:', err)
+			}
+		}
+
+		// Write the whole snapshot if nobody else has saved since our revision; otherwise merge
+		// their row and try again
+		async function writeSnapshot() {
+			for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+				const base = revisionRef.current
+				const row = { snapshot: store.getStoreSnapshot(), revision: base + 1, updated_by: clientId, updated_at: new Date().toISOString() }
+				const { data, error } = !rowExistsRef.current
+					? await supabase.from('drawings').insert({ id: drawingId, ...row }).select('revision')
+					: await supabase.from('drawings').update(row).eq('id', drawingId).eq('revision', base).select('revision')
+				// 23505: someone else created the row first
+				if (error && error.code !== '23505') throw error
+				if (!error && data.length > 0) {
+					revisionRef.current = data[0].revision
+					rowExistsRef.current = true
+					return
+				}
+				console.warn('useSupabasePersistence: Drawing was saved by someone else, merging before saving again')
+				const current = await supabase.from('drawings').select('snapshot, revision, updated_by').eq('id', drawingId).single()
+				if (current.error) throw current.error
+				mergeRow(current.data)
+			}
+			throw new Error(`Save still conflicting after ${MAX_SAVE_ATTEMPTS} attempts`)
+		}
+
 		const saveToDb = throttle(async () => {
-			const snapshot = store.getSnapshot()
+			if (isSaving) {
+				saveAgain = true
+				return
+			}
+			if (isDiffEmpty(unsaved)) return
+			isSaving = true
+			saving = unsaved
+			unsaved = createEmptyDiff()
 			try {
-				const { error } = await supabase
-					.from('drawings')
-					.upsert({ id: DRAWING_ID, snapshot, updated_at: new Date().toISOString() })
-				if (error) throw error
-				console.log('useSupabasePersistence: Saved to DB')
+				await writeSnapshot()
+				console.log('useSupabasePersistence: Saved to DB, revision', revisionRef.current)
 			} catch (err) {
 				console.error('useSupabasePersistence: DB Save Error:', err)
+				// Keep the edits for the next save
+				unsaved = mergeDiffs(saving, unsaved)
+			} finally {
+				isSaving = false
+				saving = createEmptyDiff()
+			}
+			if (saveAgain || !isDiffEmpty(unsaved)) {
+				saveAgain = false
+				saveToDb()
 			}
-		}, 2000)
+		}, SAVE_THROTTLE)
 
 		const broadcastUpdate = throttle(() => {
+			if (isDiffEmpty(unsent)) return
+			const changes = unsent
+			unsent = createEmptyDiff()
+			if (JSON.stringify(changes).length > MAX_BROADCAST_BYTES) {
+				console.warn('useSupabasePersistence: Diff too large to broadcast, other tabs will load it from the saved row')
+				return
+			}
 			channel.send({
 				type: 'broadcast',
-				event: 'canvas-update',
-				payload: { snapshot: store.getSnapshot() },
+				event: 'canvas-diff',
+				payload: { changes },
 			}).then(resp => {
 				if (resp !== 'ok') console.warn('useSupabasePersistence: Broadcast send status:', resp)
 			})
-		}, 100)
+		}, BROADCAST_THROTTLE)
 
 		const unsubscribe = store.listen((update) => {
-			if (update.source === 'remote') return
-
+			const changes = filterSyncedChanges(update.changes)
+			if (isDiffEmpty(changes)) return
+			unsaved = mergeDiffs(unsaved, changes)
 			saveToDb()
 			if (channel.state === 'joined') {
+				unsent = mergeDiffs(unsent, changes)
 				broadcastUpdate()
 			}
-		}, { scope: 'document' })
+		}, { source: 'user', scope: 'document' })
 
 		channel
-			.on('broadcast', { event: 'canvas-update' }, ({ payload }) => {
-				const newSnapshot = payload.snapshot
-				if (newSnapshot) {
-					const current = store.getSnapshot()
-					if (JSON.stringify(newSnapshot) !== JSON.stringify(current)) {
-						console.log('useSupabasePersistence: Syncing via Broadcast')
-						store.loadSnapshot(newSnapshot)
-					}
+			.on('broadcast', { event: 'canvas-diff' }, ({ payload }) => {
+				const changes = payload.changes as TLRecordsDiff | undefined
+				if (!changes) return
+				try {
+					applyRemoteChanges(store, changes)
+				} catch (err) {
+					console.error('useSupabasePersistence: Remote merge error:', err)
 				}
 			})
-			.on('postgres_changes', { 
-				event: 'UPDATE', 
-				schema: 'public', 
-				table: 'drawings', 
-				filter: `id=eq.${DRAWING_ID}` 
+			.on('postgres_changes', {
+				event: '*',
+				schema: 'public',
+				table: 'drawings',
+				filter: `id=eq.${drawingId}`
 			}, (payload) => {
-				const newSnapshot = payload.new.snapshot
-				if (newSnapshot) {
-					const current = store.getSnapshot()
-					if (JSON.stringify(newSnapshot) !== JSON.stringify(current)) {
-						console.log('useSupabasePersistence: Syncing via Postgres')
-						store.loadSnapshot(newSnapshot)
-					}
-				}
+				if (payload.eventType === 'DELETE') return
+				const row = payload.new as DrawingRow
+				// Our own save, or one we have already merged
+				if (row.updated_by === clientId || (row.revision ?? 0) <= revisionRef.current) return
+				console.log('useSupabasePersistence: Syncing via Postgres, revision', row.revision)
+				mergeRow(row)
 			})
 			.subscribe((status, err) => {
 				console.log('useSupabasePersistence: Subscription Status:', status)
 				if (err) console.error('useSupabasePersistence: Subscription Error:', err)
-				
+
 				if (status === 'CHANNEL_ERROR') {
-					console.error('useSupabasePersistence: CHANNEL_ERROR. This wusually means Realtime is disabled for this project or table.')
+					console.error('useSupabasePersistence: CHANNEL_ERROR. This usually means Realtime is disabled for this project or table.')
 				}
 			})
 
@@ -128,7 +245,7 @@ export function useSupabasePersistence() {
 			unsubscribe()
 			supabase.removeChannel(channel)
 		}
-	}, [store, loadingState.status])
+	}, [store, drawingId, loadingState.status, clientId])
 
 	return { store, loadingState }
 }
@@ -0,0 +1,86 @@
+import { readError, tokenHeaders } from './drawingApi'
+
+// Comment threads stored next to the drawing (see api/_lib/comments.js)
+export interface CommentAuthor {
+	id: string
+	name: string
+	color: string | null
+}
+
+export interface DrawingComment {
+	id: string
+	author: CommentAuthor
+	body: string
+	createdAt: string
+}
+
+// A page point; threads on a shape follow the shape while it exists
+export interface CommentAnchor {
+	pageId: string
+	x: number
+	y: number
+	shapeId?: string
+}
+
+export interface CommentThread {
+	id: string
+	drawingId: string
+	anchor: CommentAnchor
+	resolved: boolean
+	resolvedBy: CommentAuthor | null
+	resolvedAt: string | null
+	comments: DrawingComment[]
+	createdAt: string
+	updatedAt: string
+}
+
+function commentsPath(drawingId: string, threadId?: string) {
+	const path = `/api/drawing/${encodeURIComponent(drawingId)}/comments`
+	return threadId ? `${path}/${encodeURIComponent(threadId)}` : path
+}
+
+async function commentRequest<T>(method: string, path: string, token: string | undefined, body?: object): Promise<T> {
+	const res = await fetch(path, {
+		method,
+		headers: { ...(body ? { 'Content-Type': 'application/json' } : {}), ...tokenHeaders(token) },
+		body: body ? JSON.stringify(body) : undefined,
+	})
+	if (!res.ok) throw new Error(await readError(res))
+	return res.json()
+}
+
+export async function fetchCommentThreads(drawingId: string, token: string | undefined) {
+	const { threads } = await commentRequest<{ threads: CommentThread[] }>('GET', commentsPath(drawingId), token)
+	return threads
+}
+
+// `socketId` is our Pusher connection, which then doesn't get its own change back
+export function createCommentThread(
+	drawingId: string,
+	token: string | undefined,
+	input: { anchor: CommentAnchor; body: string; author: CommentAuthor; socketId?: string }
+) {
+	return commentRequest<CommentThread>('POST', commentsPath(drawingId), token, input)
+}
+
+export function replyToCommentThread(
+	drawingId: string,
+	threadId: string,
+	token: string | undefined,
+	input: { body: string; author: CommentAuthor; socketId?: string }
+) {
+	return commentRequest<CommentThread>('POST', commentsPath(drawingId, threadId), token, input)
+}
+
+export function resolveCommentThread(
+	drawingId: string,
+	threadId: string,
+	token: string | undefined,
+	input: { resolved: boolean; author: CommentAuthor; socketId?: string }
+) {
+	return commentRequest<CommentThread>('PATCH', commentsPath(drawingId, threadId), token, input)
+}
+
+export function deleteCommentThread(drawingId: string, threadId: string, token: string | undefined, socketId?: string) {
+	return commentRequest<{ success: boolean }>('DELETE', commentsPath(drawingId, threadId), token, { socketId })
+}
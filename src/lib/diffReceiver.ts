@@ -0,0 +1,187 @@
+import { createEmptyDiff, isDiffEmpty, mergeDiffs, type TLRecordsDiff } from './recordDiff'
+
+// Client side of the numbered diff broadcast (see api/_lib/broadcast.js). Diffs arrive whole
+// (`drawing-diff`) or in chunks (`drawing-diff-chunk`), each with the drawing's change seq.
+// Every seq should show up exactly once: from another client, or as the answer to one of our
+// own broadcasts. When one is still missing after a short wait, only the missed diffs are
+// fetched from the server's change log; a full reload is the last resort.
+
+export interface ChangeLogEntry {
+	seq: number
+	clientId: string | null
+	changes: TLRecordsDiff
+	createdAt: string
+}
+
+export interface ChangeLogPage {
+	seq: number
+	entries: ChangeLogEntry[]
+	hasMore: boolean
+}
+
+export interface DiffChunk {
+	seq: number
+	part: number
+	parts: number
+	data: string
+}
+
+interface DiffReceiverOptions {
+	apply(changes: TLRecordsDiff): void
+	fetchChanges(after: number): Promise<ChangeLogPage>
+	// Catching up wasn't possible (e.g. the log expired): reload the whole snapshot
+	resync(): void
+	// Our Pusher connection id, whose logged diffs we already have
+	clientId(): string | undefined
+}
+
+// Out-of-order events and the answers to our own broadcasts get this long to arrive
+const GAP_WAIT = 1500
+const CHUNK_TIMEOUT = 5000
+
+export function createDiffReceiver({ apply, fetchChanges, resync, clientId }: DiffReceiverOptions) {
+	// Every seq up to `floor` has been handled; undefined until the first numbered event
+	let floor: number | undefined
+	// Handled seqs above `floor`, i.e. past a gap
+	const seen = new Set<number>()
+	const chunks = new Map<number, { parts: (string | undefined)[]; received: number; timer: ReturnType<typeof setTimeout> }>()
+	let gapTimer: ReturnType<typeof setTimeout> | undefined
+	let catchingUp = false
+	let disposed = false
+
+	function start(seq: number) {
+		if (floor === undefined) floor = seq - 1
+	}
+
+	function isHandled(seq: number) {
+		return floor !== undefined && (seq <= floor || seen.has(seq))
+	}
+
+	function markHandled(seq: number) {
+		start(seq)
+		seen.add(seq)
+		while (seen.has(floor! + 1)) {
+			floor! += 1
+			seen.delete(floor!)
+		}
+		if (seen.size > 0) scheduleCatchUp()
+	}
+
+	function scheduleCatchUp(delay = GAP_WAIT) {
+		if (gapTimer || disposed) return
+		gapTimer = setTimeout(() => {
+			gapTimer = undefined
+			catchUp()
+		}, delay)
+	}
+
+	function reset() {
+		floor = undefined
+		seen.clear()
+		for (const { timer } of chunks.values()) clearTimeout(timer)
+		chunks.clear()
+	}
+
+	// Fetch and apply every logged diff after `floor` that didn't come from us
+	async function catchUp() {
+		if (catchingUp || disposed || floor === undefined) return
+		catchingUp = true
+		try {
+			const ownId = clientId()
+			let after = floor
+			let missed = createEmptyDiff()
+			for (;;) {
+				const page = await fetchChanges(after)
+				for (const entry of page.entries) {
+					// Expired from the log, or not written yet
+					if (entry.seq !== after + 1) throw new Error(`Change ${after + 1} is not in the log`)
+					after = entry.seq
+					if (!ownId || entry.clientId !== ownId) missed = mergeDiffs(missed, entry.changes)
+				}
+				if (!page.hasMore) break
+			}
+			if (disposed) return
+			if (!isDiffEmpty(missed)) apply(missed)
+			floor = Math.max(floor ?? after, after)
+			for (const seq of seen) if (seq <= floor) seen.delete(seq)
+			for (const [seq, chunk] of chunks) {
+				if (seq > floor) continue
+				clearTimeout(chunk.timer)
+				chunks.delete(seq)
+			}
+			console.log('DiffReceiver: Caught up to change', floor)
+		} catch (err) {
+			console.warn('DiffReceiver: Could not catch up from the change log, reloading:', err)
+			reset()
+			if (!disposed) resync()
+		} finally {
+			catchingUp = false
+			if (seen.size > 0) scheduleCatchUp()
+		}
+	}
+
+	// A whole diff; `seq` is null when the server couldn't number it
+	function receive(seq: number | null | undefined, changes: TLRecordsDiff) {
+		if (seq == null) {
+			apply(changes)
+			return
+		}
+		if (isHandled(seq)) return
+		apply(changes)
+		markHandled(seq)
+	}
+
+	function receiveChunk({ seq, part, parts, data }: DiffChunk) {
+		start(seq)
+		if (isHandled(seq)) return
+		let chunk = chunks.get(seq)
+		if (!chunk) {
+			chunk = {
+				parts: new Array(parts),
+				received: 0,
+				// Lost a chunk: treat the whole diff as missed
+				timer: setTimeout(() => {
+					chunks.delete(seq)
+					scheduleCatchUp(0)
+				}, CHUNK_TIMEOUT),
+			}
+			chunks.set(seq, chunk)
+		}
+		if (chunk.parts[part] !== undefined) return
+		chunk.parts[part] = data
+		chunk.received += 1
+		if (chunk.received < parts) return
+
+		clearTimeout(chunk.timer)
+		chunks.delete(seq)
+		try {
+			receive(seq, JSON.parse(chunk.parts.join('')))
+		} catch (err) {
+			console.error('DiffReceiver: Could not reassemble change', seq, err)
+			scheduleCatchUp(0)
+		}
+	}
+
+	// A diff we know about but whose content never came (too large to send): fetch it
+	function missed(seq: number) {
+		start(seq)
+		if (isHandled(seq)) return
+		scheduleCatchUp(0)
+	}
+
+	// The server numbered one of our own broadcasts
+	function acknowledge(seq: number | null | undefined) {
+		if (seq == null || isHandled(seq)) return
+		markHandled(seq)
+	}
+
+	function dispose() {
+		disposed = true
+		clearTimeout(gapTimer)
+		reset()
+	}
+
+	return { receive, receiveChunk, missed, acknowledge, dispose }
+}
+
+export type DiffReceiver = ReturnType<typeof createDiffReceiver>
@@ -0,0 +1,57 @@
+// Header carrying the stored drawing's revision on GET /api/drawing (see api/_lib/revisions.js)
+export const REVISION_HEADER = 'X-Drawing-Revision'
+// Share token sent with every request, and the access level it grants (see api/_lib/access.js)
+export const TOKEN_HEADER = 'X-Drawing-Token'
+export const ACCESS_HEADER = 'X-Drawing-Access'
+// Every token this browser has stored, sent when listing drawings
+export const TOKENS_HEADER = 'X-Drawing-Tokens'
+
+export type DrawingAccess = 'edit' | 'view'
+
+export function readRevision(response: Response) {
+	return Number(response.headers.get(REVISION_HEADER)) || 0
+}
+
+export function readAccess(response: Response): DrawingAccess {
+	return response.headers.get(ACCESS_HEADER) === 'view' ? 'view' : 'edit'
+}
+
+export function tokenHeaders(token: string | undefined): Record<string, string> {
+	return token ? { [TOKEN_HEADER]: token } : {}
+}
+
+// Seconds to wait after a 429 (see api/_lib/rateLimit.js)
+export function readRetryAfter(response: Response) {
+	return Number(response.headers.get('Retry-After')) || 1
+}
+
+export async function readError(res: Response) {
+	const err = await res.json().catch(() => ({}))
+	return (err as { error?: string }).error || `Request failed: ${res.status}`
+}
+
+export interface CreatedDrawing {
+	id: string
+	name: string
+	createdAt: string
+	updatedAt: string
+	editToken: string
+	viewToken: string
+}
+
+// POST /api/drawings – an empty drawing plus the share tokens for its creator
+export async function createDrawing(name: string): Promise<CreatedDrawing> {
+	const res = await fetch('/api/drawings', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ name }),
+	})
+	if (!res.ok) throw new Error(await readError(res))
+	return res.json()
+}
+
+// Thumbnail uploaded by the board (PUT) and served for the drawing list and link previews (GET)
+export function previewPath(drawingId: string, token?: string) {
+	const path = `/api/drawing/${encodeURIComponent(drawingId)}/preview.png`
+	return token ? `${path}?token=${encodeURIComponent(token)}` : path
+}
@@ -0,0 +1,53 @@
+import type { TLStoreSnapshot } from 'tldraw'
+import { readError, tokenHeaders } from './drawingApi'
+
+// Saved copies of a drawing: auto checkpoints taken while saving, and named ones made from the
+// history panel (see api/_lib/checkpoints.js)
+export interface DrawingRevision {
+	id: string
+	drawingId: string
+	// The drawing's revision counter when the copy was taken
+	revision: number
+	kind: 'auto' | 'named'
+	name: string | null
+	createdAt: string
+}
+
+function revisionsPath(drawingId: string, revisionId?: string) {
+	const path = `/api/drawing/${encodeURIComponent(drawingId)}/revisions`
+	return revisionId ? `${path}/${encodeURIComponent(revisionId)}` : path
+}
+
+async function revisionRequest<T>(method: string, path: string, token: string | undefined, body?: object): Promise<T> {
+	const res = await fetch(path, {
+		method,
+		headers: { ...(body ? { 'Content-Type': 'application/json' } : {}), ...tokenHeaders(token) },
+		body: body ? JSON.stringify(body) : undefined,
+	})
+	if (!res.ok) throw new Error(await readError(res))
+	return res.json()
+}
+
+// Newest first, without snapshots
+export async function fetchDrawingRevisions(drawingId: string, token: string | undefined) {
+	const { revisions } = await revisionRequest<{ revisions: DrawingRevision[] }>('GET', revisionsPath(drawingId), token)
+	return revisions
+}
+
+export function fetchDrawingRevision(drawingId: string, revisionId: string, token: string | undefined) {
+	return revisionRequest<DrawingRevision & { snapshot: TLStoreSnapshot }>('GET', revisionsPath(drawingId, revisionId), token)
+}
+
+// Names the drawing's current saved state
+export function createCheckpoint(drawingId: string, name: string, token: string | undefined) {
+	return revisionRequest<DrawingRevision>('POST', revisionsPath(drawingId), token, { name })
+}
+
+// Open clients are told to reload; the state being replaced is kept as an auto checkpoint
+export function restoreDrawingRevision(drawingId: string, revisionId: string, token: string | undefined) {
+	return revisionRequest<{ success: boolean; revision: number }>('POST', `${revisionsPath(drawingId, revisionId)}/restore`, token)
+}
+
+export function deleteDrawingRevision(drawingId: string, revisionId: string, token: string | undefined) {
+	return revisionRequest<{ success: boolean }>('DELETE', revisionsPath(drawingId, revisionId), token)
+}
@@ -0,0 +1,71 @@
+import type { TLStoreSnapshot } from 'tldraw'
+import type { DrawingAccess } from './drawingApi'
+import type { TLRecordsDiff } from './recordDiff'
+
+// Per-drawing IndexedDB cache: the last known store snapshot (to boot while the server is
+// unreachable) and an outbox holding the squashed diff of edits the server hasn't acknowledged.
+
+const DB_NAME = 'dessimbol-offline'
+const DB_VERSION = 1
+const SNAPSHOTS = 'snapshots'
+const OUTBOX = 'outbox'
+
+export interface CachedDrawing {
+	snapshot: TLStoreSnapshot
+	revision: number
+	// What the share token allowed when this copy was cached; missing in copies cached before it was kept
+	access?: DrawingAccess
+	cachedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb() {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION)
+			request.onupgradeneeded = () => {
+				const db = request.result
+				if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS)
+				if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX)
+			}
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => {
+				dbPromise = null
+				reject(request.error)
+			}
+		})
+	}
+	return dbPromise
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+	const db = await openDb()
+	return new Promise<T>((resolve, reject) => {
+		const request = fn(db.transaction(name, mode).objectStore(name))
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => reject(request.error)
+	})
+}
+
+export function readCachedDrawing(drawingId: string) {
+	return withStore<CachedDrawing | undefined>(SNAPSHOTS, 'readonly', (store) => store.get(drawingId))
+}
+
+export async function writeCachedDrawing(
+	drawingId: string,
+	snapshot: TLStoreSnapshot,
+	revision: number,
+	access: DrawingAccess
+) {
+	const entry: CachedDrawing = { snapshot, revision, access, cachedAt: Date.now() }
+	await withStore(SNAPSHOTS, 'readwrite', (store) => store.put(entry, drawingId))
+}
+
+export function readOutbox(drawingId: string) {
+	return withStore<TLRecordsDiff | undefined>(OUTBOX, 'readonly', (store) => store.get(drawingId))
+}
+
+export async function writeOutbox(drawingId: string, changes: TLRecordsDiff) {
+	await withStore(OUTBOX, 'readwrite', (store) => store.put(changes, drawingId))
+}
@@ -0,0 +1,56 @@
+import type { TLStoreSnapshot } from 'tldraw'
+import type { ChangeLogEntry, ChangeLogPage } from './diffReceiver'
+import { readError, tokenHeaders } from './drawingApi'
+import { fetchDrawingRevision, fetchDrawingRevisions } from './drawingRevisions'
+
+// Playback of a drawing from its change log (see api/_lib/broadcast.js): the state at some
+// starting point, then every logged diff since, in order.
+
+const PAGE_SIZE = 1000
+// Longer logs are played from a later starting point
+const MAX_ENTRIES = 20000
+
+export interface Playback {
+	// State before the first entry; null when the log goes back to the drawing's first diff
+	base: TLStoreSnapshot | null
+	entries: ChangeLogEntry[]
+	// False when the start of the log had expired and no checkpoint bridges the gap, so records
+	// the entries never touch may be missing or out of date
+	complete: boolean
+}
+
+async function fetchChangeLog(drawingId: string, token: string | undefined) {
+	let entries: ChangeLogEntry[] = []
+	let after = 0
+	for (;;) {
+		const res = await fetch(`/api/drawing/${encodeURIComponent(drawingId)}/changes?after=${after}&limit=${PAGE_SIZE}`, {
+			headers: tokenHeaders(token),
+		})
+		if (!res.ok) throw new Error(await readError(res))
+		const page: ChangeLogPage = await res.json()
+		entries = entries.concat(page.entries).slice(-MAX_ENTRIES)
+		if (!page.hasMore || page.entries.length === 0) return entries
+		after = page.entries[page.entries.length - 1].seq
+	}
+}
+
+// Start from the drawing's first diff when the log has it, otherwise from the oldest
+// checkpoint the log covers completely
+export async function loadPlayback(drawingId: string, token: string | undefined): Promise<Playback> {
+	const entries = await fetchChangeLog(drawingId, token)
+	if (entries.length === 0 || entries[0].seq === 1) return { base: null, entries, complete: true }
+
+	const firstLogged = entries[0].createdAt
+	// Newest first
+	const revisions = await fetchDrawingRevisions(drawingId, token)
+	const covered = revisions.filter((entry) => entry.createdAt >= firstLogged)
+	const start = covered[covered.length - 1] ?? revisions.find((entry) => entry.createdAt < firstLogged)
+	if (!start) return { base: null, entries, complete: false }
+
+	const { snapshot } = await fetchDrawingRevision(drawingId, start.id, token)
+	return {
+		base: snapshot,
+		entries: entries.filter((entry) => entry.createdAt > start.createdAt),
+		complete: covered.length > 0,
+	}
+}
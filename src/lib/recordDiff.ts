@@ -0,0 +1,127 @@
+import { isEqual, squashRecordDiffs, type RecordsDiff, type TLRecord, type TLStore, type TLStoreSnapshot } from 'tldraw'
+
+export type TLRecordsDiff = RecordsDiff<TLRecord>
+
+// Record types that are shared between collaborators (everything else is per-tab session state)
+export const SYNCED_RECORD_TYPES: ReadonlySet<string> = new Set(['shape', 'binding', 'asset', 'page', 'document'])
+
+export function createEmptyDiff(): TLRecordsDiff {
+	return { added: {}, updated: {}, removed: {} }
+}
+
+export function isDiffEmpty(diff: TLRecordsDiff) {
+	return (
+		Object.keys(diff.added).length === 0 &&
+		Object.keys(diff.updated).length === 0 &&
+		Object.keys(diff.removed).length === 0
+	)
+}
+
+// Number of records the diff adds, updates or removes
+export function countDiffRecords(diff: TLRecordsDiff) {
+	return Object.keys(diff.added).length + Object.keys(diff.updated).length + Object.keys(diff.removed).length
+}
+
+// Keep only the records other clients care about
+export function filterSyncedChanges(changes: TLRecordsDiff, types: ReadonlySet<string> = SYNCED_RECORD_TYPES): TLRecordsDiff {
+	const result = createEmptyDiff()
+	for (const [id, record] of Object.entries(changes.added)) {
+		if (types.has(record.typeName)) result.added[id as TLRecord['id']] = record
+	}
+	for (const [id, pair] of Object.entries(changes.updated)) {
+		if (types.has(pair[1].typeName)) result.updated[id as TLRecord['id']] = pair
+	}
+	for (const [id, record] of Object.entries(changes.removed)) {
+		if (types.has(record.typeName)) result.removed[id as TLRecord['id']] = record
+	}
+	return result
+}
+
+// Fold a new batch into the pending diff so add→remove within one flush cancels out
+export function mergeDiffs(pending: TLRecordsDiff, next: TLRecordsDiff): TLRecordsDiff {
+	return squashRecordDiffs([pending, next])
+}
+
+function putChanges(store: TLStore, changes: TLRecordsDiff) {
+	const toRemove = Object.keys(changes.removed ?? {}) as TLRecord['id'][]
+	if (toRemove.length > 0) {
+		store.remove(toRemove.filter((id) => store.has(id)))
+	}
+	const toPut = [
+		...Object.values(changes.added ?? {}),
+		...Object.values(changes.updated ?? {}).map((u) => u[1]), // updated is [old, new]
+	]
+	if (toPut.length > 0) {
+		store.put(toPut)
+	}
+}
+
+// Apply a diff received from another client without echoing it back as a user change
+export function applyRemoteChanges(store: TLStore, changes: TLRecordsDiff) {
+	store.mergeRemoteChanges(() => putChanges(store, changes))
+}
+
+// Apply a diff as if the user had made it, so it is broadcast and saved like any other edit
+export function applyLocalChanges(store: TLStore, changes: TLRecordsDiff) {
+	putChanges(store, changes)
+}
+
+function changedIds(diff: TLRecordsDiff) {
+	return new Set<string>([...Object.keys(diff.added), ...Object.keys(diff.updated), ...Object.keys(diff.removed)])
+}
+
+// Build the diff that brings the store's synced records in line with a server snapshot,
+// leaving records that have unsaved local edits untouched (local edits win on those ids)
+export function diffStoreToSnapshot(store: TLStore, snapshot: TLStoreSnapshot, localChanges: TLRecordsDiff): TLRecordsDiff {
+	const localIds = changedIds(localChanges)
+	const diff = createEmptyDiff()
+	const serverRecords = snapshot.store as Record<string, TLRecord>
+	for (const [id, record] of Object.entries(serverRecords)) {
+		if (localIds.has(id) || !SYNCED_RECORD_TYPES.has(record.typeName)) continue
+		const current = store.get(record.id)
+		if (!current) diff.added[record.id] = record
+		else if (!isEqual(current, record)) diff.updated[record.id] = [current, record]
+	}
+	for (const current of store.allRecords()) {
+		if (localIds.has(current.id) || !SYNCED_RECORD_TYPES.has(current.typeName)) continue
+		if (!(current.id in serverRecords)) diff.removed[current.id] = current
+	}
+	return diff
+}
+
+// The synced part of a server diff, minus records that have unsaved local edits (local edits win)
+export function withoutLocalChanges(changes: TLRecordsDiff, localChanges: TLRecordsDiff): TLRecordsDiff {
+	const localIds = changedIds(localChanges)
+	const synced = filterSyncedChanges(changes)
+	const result = createEmptyDiff()
+	for (const [id, record] of Object.entries(synced.added)) {
+		if (!localIds.has(id)) result.added[id as TLRecord['id']] = record
+	}
+	for (const [id, pair] of Object.entries(synced.updated)) {
+		if (!localIds.has(id)) result.updated[id as TLRecord['id']] = pair
+	}
+	for (const [id, record] of Object.entries(synced.removed)) {
+		if (!localIds.has(id)) result.removed[id as TLRecord['id']] = record
+	}
+	return result
+}
+
+// Rebase edits recorded offline onto the server copy currently in the store. Local values win
+// for records that still exist; records deleted on the server in the meantime stay deleted.
+export function rebaseChangesOntoStore(store: TLStore, changes: TLRecordsDiff): TLRecordsDiff {
+	const diff = createEmptyDiff()
+	for (const record of Object.values(changes.added)) {
+		const current = store.get(record.id)
+		if (!current) diff.added[record.id] = record
+		else if (!isEqual(current, record)) diff.updated[record.id] = [current, record]
+	}
+	for (const [, to] of Object.values(changes.updated)) {
+		const current = store.get(to.id)
+		if (current && !isEqual(current, to)) diff.updated[to.id] = [current, to]
+	}
+	for (const record of Object.values(changes.removed)) {
+		const current = store.get(record.id)
+		if (current) diff.removed[record.id] = current
+	}
+	return diff
+}
@@ -0,0 +1,33 @@
+// Remembers the share token each drawing was opened with, so the drawing list can link back
+// to boards without the token being in the URL
+const STORAGE_KEY = 'dessimbol-share-tokens'
+
+function readAll(): Record<string, string> {
+	try {
+		return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+	} catch {
+		return {}
+	}
+}
+
+// { [drawingId]: token } for every drawing opened in this browser
+export function getStoredTokens(): Record<string, string> {
+	return readAll()
+}
+
+export function getStoredToken(drawingId: string): string | undefined {
+	return readAll()[drawingId]
+}
+
+export function storeToken(drawingId: string, token: string) {
+	const tokens = readAll()
+	if (tokens[drawingId] === token) return
+	tokens[drawingId] = token
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens))
+}
+
+export function forgetToken(drawingId: string) {
+	const tokens = readAll()
+	delete tokens[drawingId]
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens))
+}
@@ -0,0 +1,164 @@
+import {
+	parseTldrawJsonFile,
+	serializeTldrawJsonBlob,
+	sortByIndex,
+	TLDRAW_FILE_EXTENSION,
+	type Editor,
+	type TLAsset,
+	type TldrawFileParseError,
+	type TLPage,
+	type TLRecord,
+} from 'tldraw'
+import { zipSync } from 'fflate'
+import { drawingPath, navigate } from '../hooks/useRoute'
+import { createDrawing } from './drawingApi'
+import { storeToken } from './shareTokens'
+
+// .tldr import/export and bulk page export, used by the board's main menu and the drawing list
+
+function fileSafeName(name: string) {
+	return name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').trim() || 'Untitled'
+}
+
+// Name for downloaded files: the document name if set, else the current page's
+export function exportName(editor: Editor) {
+	return editor.getDocumentSettings().name || editor.getCurrentPage().name || 'drawing'
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+	const url = URL.createObjectURL(blob)
+	const link = document.createElement('a')
+	link.href = url
+	link.download = fileName
+	link.click()
+	setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Resolves with null if the user closes the picker without choosing a file
+export function pickTldrFile(): Promise<File | null> {
+	return new Promise((resolve) => {
+		const input = document.createElement('input')
+		input.type = 'file'
+		input.accept = `${TLDRAW_FILE_EXTENSION},application/json`
+		input.addEventListener('change', () => resolve(input.files?.[0] ?? null))
+		input.addEventListener('cancel', () => resolve(null))
+		input.click()
+	})
+}
+
+// The whole store as a .tldr file. Uploaded assets are fetched and inlined as data URLs, so the
+// file opens anywhere without access to this server.
+export async function exportTldrFile(editor: Editor) {
+	const blob = await serializeTldrawJsonBlob(editor)
+	downloadBlob(blob, `${fileSafeName(exportName(editor))}${TLDRAW_FILE_EXTENSION}`)
+}
+
+function describeParseError(error: TldrawFileParseError) {
+	switch (error.type) {
+		case 'notATldrawFile':
+			return 'This is not a .tldr file'
+		case 'v1File':
+			return 'Files from tldraw v1 are not supported'
+		case 'fileFormatVersionTooNew':
+			return 'This file was saved by a newer version of tldraw'
+		case 'migrationFailed':
+			return 'This file could not be upgraded to the current tldraw version'
+		case 'invalidRecords':
+			return 'This file is corrupted'
+	}
+}
+
+// Inlined (data URL) assets go back through the asset store, so the board only ever holds
+// /api/asset URLs and collaborators never receive the file's bytes as a diff
+async function reuploadAsset(editor: Editor, asset: TLAsset): Promise<TLAsset> {
+	const src = asset.props.src
+	if (asset.type === 'bookmark' || !src?.startsWith('data:')) return asset
+	const blob = await (await fetch(src)).blob()
+	const file = new File([blob], asset.props.name || 'asset', { type: asset.props.mimeType ?? blob.type })
+	try {
+		const uploaded = await editor.uploadAsset(asset, file)
+		return { ...asset, props: { ...asset.props, src: uploaded.src } }
+	} catch (err: any) {
+		throw new Error(`Could not upload "${asset.props.name || asset.id}": ${err.message}`)
+	}
+}
+
+// Replace the board's document (pages, shapes, bindings, assets) with the contents of a .tldr
+// file. Changes are made as the local user, so they are saved and broadcast like any edit.
+export async function importTldrFile(editor: Editor, file: File) {
+	const result = parseTldrawJsonFile({ json: await file.text(), schema: editor.store.schema })
+	if (!result.ok) throw new Error(describeParseError(result.error))
+
+	const documentTypes = editor.store.scopedTypes.document
+	const isDocumentRecord = (record: TLRecord) => documentTypes.has(record.typeName)
+	const records = await Promise.all(
+		result.value
+			.allRecords()
+			.filter(isDocumentRecord)
+			.map((record) => (record.typeName === 'asset' ? reuploadAsset(editor, record) : record))
+	)
+
+	const incomingIds = new Set(records.map((record) => record.id))
+	const staleIds = editor.store
+		.allRecords()
+		.filter((record) => isDocumentRecord(record) && !incomingIds.has(record.id))
+		.map((record) => record.id)
+	const firstPage = records.filter((record): record is TLPage => record.typeName === 'page').sort(sortByIndex)[0]
+
+	editor.run(() => {
+		// Put before removing so the board always has a page to show
+		editor.store.put(records)
+		editor.store.remove(staleIds)
+		if (firstPage) editor.setCurrentPage(firstPage.id)
+	})
+	editor.zoomToFit()
+}
+
+// Files waiting to be imported into a drawing that was just created for them
+const queuedImports = new Map<string, File>()
+
+export function takeQueuedImport(drawingId: string) {
+	const file = queuedImports.get(drawingId)
+	queuedImports.delete(drawingId)
+	return file
+}
+
+// Create a drawing named after the file and open it; the board imports the file once it loads
+// (assets can only be uploaded to an existing drawing)
+export async function importTldrAsNewDrawing(file: File) {
+	const name = file.name.replace(/\.tldr$/i, '') || 'Imported drawing'
+	const drawing = await createDrawing(name)
+	storeToken(drawing.id, drawing.editToken)
+	queuedImports.set(drawing.id, file)
+	navigate(drawingPath(drawing.id, drawing.editToken))
+}
+
+// Every non-empty page as an SVG or PNG, zipped into one download
+export async function exportPagesZip(editor: Editor, format: 'svg' | 'png') {
+	const files: Record<string, Uint8Array> = {}
+	const encoder = new TextEncoder()
+	const originalPageId = editor.getCurrentPageId()
+	try {
+		for (const [i, page] of editor.getPages().entries()) {
+			// Exports only render shapes on the current page
+			editor.setCurrentPage(page.id)
+			const shapeIds = [...editor.getCurrentPageShapeIds()]
+			if (shapeIds.length === 0) continue
+			const fileName = `${String(i + 1).padStart(2, '0')} ${fileSafeName(page.name)}.${format}`
+			if (format === 'svg') {
+				const svg = await editor.getSvgString(shapeIds, { background: true })
+				if (svg) files[fileName] = encoder.encode(svg.svg)
+			} else {
+				const { blob } = await editor.toImage(shapeIds, { format: 'png', background: true, scale: 2 })
+				files[fileName] = new Uint8Array(await blob.arrayBuffer())
+			}
+		}
+	} finally {
+		editor.setCurrentPage(originalPageId)
+	}
+
+	if (Object.keys(files).length === 0) throw new Error('There is nothing to export')
+	// PNGs are already compressed
+	const zip = zipSync(files, { level: format === 'png' ? 0 : 6 })
+	downloadBlob(new Blob([zip], { type: 'application/zip' }), `${fileSafeName(exportName(editor))}-${format}.zip`)
+}